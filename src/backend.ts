@@ -0,0 +1,105 @@
+import type { Readable } from 'node:stream';
+
+import { getConfig, type BackendName } from './config.js';
+import type { K8sPod, K8sService, KubeTarget, LogOptions } from './k8s.js';
+import { apiBackend } from './kubeapi.js';
+import { kubectlBackend } from './kubectl.js';
+
+/**
+ * A long-running operation (log stream or port-forward). A kubectl child
+ * process satisfies it as is; in-process operations have no pid.
+ */
+export interface BackendProcess {
+  readonly pid?: number;
+  readonly stdout: Readable | null;
+  readonly stderr: Readable | null;
+  kill(signal?: NodeJS.Signals): boolean;
+  on(event: 'error', listener: (err: Error) => void): this;
+  on(event: 'close', listener: (code: number | null) => void): this;
+}
+
+export interface LogStreamOptions {
+  /** Lines of history to start with. */
+  tail?: number;
+  /** Resume from this RFC3339 time instead of tailing (inclusive). */
+  sinceTime?: string;
+  /** Prefix every line with its RFC3339 timestamp. */
+  timestamps?: boolean;
+  /** Container of multi-container pods (default: the pod's default container). */
+  container?: string;
+}
+
+export interface PortForwardRequest extends KubeTarget {
+  namespace: string;
+  /** Pod name, svc/<name> or deploy/<name>. */
+  targetRef: string;
+  localPort: number;
+  /** Local address to listen on (default: 127.0.0.1). */
+  address?: string;
+  /** Port number or name; for svc/ refs a Service port, otherwise a container port. */
+  remotePort: number | string;
+}
+
+export interface PodWatchHandlers {
+  /** The full pod list, replacing everything seen before (on start and whenever the watch had to re-list). */
+  sync(pods: K8sPod[]): void;
+  event(type: 'ADDED' | 'MODIFIED' | 'DELETED', pod: K8sPod): void;
+}
+
+/** How the server talks to clusters. */
+export interface K8sBackend {
+  name: BackendName;
+  getContexts(
+    kubeconfig?: string
+  ): Promise<{ contexts: string[]; current: string | null }>;
+  getNamespaces(kube?: KubeTarget): Promise<string[]>;
+  /** Pods of a namespace, or of all namespaces when namespace is undefined. */
+  getPods(
+    namespace: string | undefined,
+    kube?: KubeTarget,
+    labelSelector?: string
+  ): Promise<K8sPod[]>;
+  getPod(namespace: string, name: string, kube?: KubeTarget): Promise<K8sPod>;
+  /** The Service, or null when it does not exist. */
+  getService(
+    namespace: string,
+    name: string,
+    kube?: KubeTarget
+  ): Promise<K8sService | null>;
+  /** One-shot logs of a pod or resource reference. */
+  getLogs(
+    namespace: string,
+    ref: string,
+    options: LogOptions,
+    kube?: KubeTarget
+  ): Promise<string>;
+  /** Follow the logs of a pod or resource reference until killed. */
+  streamLogs(
+    namespace: string,
+    ref: string,
+    options: LogStreamOptions,
+    kube?: KubeTarget
+  ): BackendProcess;
+  /**
+   * Forward a local port until killed. Prints "Forwarding from ..." once
+   * listening and "lost connection to pod" when the tunnel breaks, like kubectl.
+   */
+  portForward(request: PortForwardRequest): BackendProcess;
+  /**
+   * Watch the pods of all namespaces until killed, if the backend can. Writes
+   * the error to stderr and closes when the watch cannot continue.
+   */
+  watchPods?(
+    kube: KubeTarget | undefined,
+    handlers: PodWatchHandlers
+  ): BackendProcess;
+}
+
+const BACKENDS: Record<BackendName, K8sBackend> = {
+  kubectl: kubectlBackend,
+  api: apiBackend,
+};
+
+export function getBackend(): K8sBackend {
+  return BACKENDS[getConfig().backend];
+}
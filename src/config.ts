@@ -0,0 +1,421 @@
+import { readFileSync } from 'node:fs';
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { parsePortRange } from './util.js';
+
+export const ENVIRONMENT_SOURCES = [
+  'prefix',
+  'suffix',
+  'namespace',
+  'label',
+] as const;
+
+export type EnvironmentSource = (typeof ENVIRONMENT_SOURCES)[number];
+
+/** How environments and short service names are derived from workloads. */
+export interface NamingConfig {
+  /** Known environment names, in order of preference when none is requested. */
+  environments: string[];
+  /** Where the environment comes from: workload name prefix/suffix, namespace, or a pod label. */
+  environmentSource: EnvironmentSource;
+  /** Regex applied to the namespace when environmentSource is "namespace"; group 1 is the env. */
+  namespacePattern?: string;
+  /** Pod label holding the env when environmentSource is "label". */
+  environmentLabel: string;
+  /** Pod label used as the short name when present; empty string to always use the workload name. */
+  shortNameLabel: string;
+  /** Strip a leading "<namespace>-" from short names. */
+  stripNamespacePrefix: boolean;
+}
+
+/** Where includeLogs output is shown. */
+export interface LogViewerConfig {
+  /** Backends tried in order until one succeeds; "auto" is the platform default chain. */
+  backends: string[];
+  /** Directory for the "file" backend. */
+  fileDir: string;
+  /** Rotate a log file once it grows past this size. */
+  maxFileBytes: number;
+  /** Rotated files kept per forward (label.log.1 ... label.log.N). */
+  maxFiles: number;
+}
+
+export const POLICY_EFFECTS = ['allow', 'deny', 'confirm'] as const;
+
+export type PolicyEffect = (typeof POLICY_EFFECTS)[number];
+
+/**
+ * One policy rule. It matches a forward when every list it sets contains the
+ * forward's value ("*" wildcards allowed); unset lists match anything.
+ */
+export interface PolicyRule {
+  /** Shown in denials; defaults to "rules[<index>]". */
+  name?: string;
+  /** "deny" blocks the forward, "confirm" requires confirm: true, "allow" permits it. */
+  effect: PolicyEffect;
+  environments?: string[];
+  namespaces?: string[];
+  contexts?: string[];
+  /** Short service names or full workload names. */
+  services?: string[];
+  /** Why the rule exists; included in denials. */
+  reason?: string;
+}
+
+/** Which forwards start_k8s_port_forward may start. The first matching rule wins. */
+export interface PolicyConfig {
+  rules: PolicyRule[];
+  /** Effect when no rule matches. */
+  defaultEffect: PolicyEffect;
+}
+
+export const ORPHAN_MODES = ['adopt', 'cleanup'] as const;
+
+export type OrphanMode = (typeof ORPHAN_MODES)[number];
+
+/** Where running forwards are recorded so a restarted server can find them. */
+export interface StateConfig {
+  file: string;
+  /** What to do on startup with forwards left running by a previous server. */
+  orphans: OrphanMode;
+}
+
+/** How the services seen by discovery are cached. */
+export interface DiscoveryConfig {
+  /** Re-list pods on use once the cache is older than this (unless a watch keeps it current). */
+  ttlSeconds: number;
+  /** Keep the cache current with a pod watch where the backend supports one. */
+  watch: boolean;
+}
+
+export const TRANSPORTS = ['stdio', 'http'] as const;
+
+export type TransportName = (typeof TRANSPORTS)[number];
+
+/**
+ * How MCP clients connect. "stdio" serves the one client that spawned the
+ * server; "http" is a long-lived server on localhost that any number of
+ * clients share (MCP over SSE), so they all see the same forwards.
+ */
+export interface TransportConfig {
+  mode: TransportName;
+  /** Port of the HTTP transport; it only ever binds 127.0.0.1. */
+  port: number;
+  /** Bearer token clients must send; generated and saved to tokenFile when unset. */
+  token?: string;
+  tokenFile: string;
+}
+
+/** "kubectl" runs the kubectl binary; "api" talks to the API server in-process. */
+export const BACKENDS = ['kubectl', 'api'] as const;
+
+export type BackendName = (typeof BACKENDS)[number];
+
+export interface Config {
+  backend: BackendName;
+  /** Inclusive "start-end" range searched for localPort "auto". */
+  portRange: string;
+  discovery: DiscoveryConfig;
+  naming: NamingConfig;
+  logViewer: LogViewerConfig;
+  policy: PolicyConfig;
+  state: StateConfig;
+  transport: TransportConfig;
+}
+
+const DEFAULT_NAMING: NamingConfig = {
+  environments: ['dev', 'qa', 'stg', 'prod'],
+  environmentSource: 'prefix',
+  environmentLabel: 'environment',
+  shortNameLabel: 'app.kubernetes.io/name',
+  stripNamespacePrefix: true,
+};
+
+const DEFAULT_LOG_VIEWER: LogViewerConfig = {
+  backends: ['auto'],
+  fileDir: join(tmpdir(), 'k8s-port-forward-mcp', 'logs'),
+  maxFileBytes: 10 * 1024 * 1024,
+  maxFiles: 3,
+};
+
+const DEFAULT_PORT_RANGE = '3000-3999';
+
+const DEFAULT_DISCOVERY: DiscoveryConfig = {
+  ttlSeconds: 30,
+  watch: true,
+};
+
+const DEFAULT_POLICY: PolicyConfig = {
+  rules: [
+    {
+      name: 'system-namespaces',
+      effect: 'deny',
+      namespaces: ['kube-system', 'kube-public', 'kube-node-lease'],
+      reason: 'cluster system namespaces are off limits',
+    },
+    {
+      name: 'production',
+      effect: 'confirm',
+      environments: ['prod', 'production'],
+      reason: 'production traffic needs an explicit confirmation',
+    },
+  ],
+  defaultEffect: 'allow',
+};
+
+const DEFAULT_HTTP_PORT = 7420;
+
+let cachedConfig: Config | null = null;
+
+/** Per-user config directory (XDG on Linux/macOS, %APPDATA% on Windows). */
+export function configDir(): string {
+  const base =
+    process.platform === 'win32'
+      ? (process.env.APPDATA ?? join(homedir(), 'AppData', 'Roaming'))
+      : (process.env.XDG_CONFIG_HOME ?? join(homedir(), '.config'));
+  return join(base, 'k8s-port-forward-mcp');
+}
+
+export function configFilePath(): string {
+  return (
+    process.env.K8S_PORT_FORWARD_CONFIG ?? join(configDir(), 'config.json')
+  );
+}
+
+function readConfigFile(path: string): Partial<Config> {
+  let raw: string;
+  try {
+    raw = readFileSync(path, 'utf8');
+  } catch {
+    // A missing config file just means defaults
+    return {};
+  }
+  try {
+    return JSON.parse(raw) as Partial<Config>;
+  } catch (err) {
+    console.error(
+      `Ignoring invalid config file ${path}: ${err instanceof Error ? err.message : err}`
+    );
+    return {};
+  }
+}
+
+function namingFromEnv(): Partial<NamingConfig> {
+  const naming: Partial<NamingConfig> = {};
+  const env = process.env;
+  if (env.K8S_PORT_FORWARD_ENVIRONMENTS) {
+    naming.environments = env.K8S_PORT_FORWARD_ENVIRONMENTS.split(',')
+      .map((e) => e.trim())
+      .filter(Boolean);
+  }
+  if (env.K8S_PORT_FORWARD_ENV_SOURCE) {
+    naming.environmentSource =
+      env.K8S_PORT_FORWARD_ENV_SOURCE as EnvironmentSource;
+  }
+  if (env.K8S_PORT_FORWARD_ENV_NAMESPACE_PATTERN) {
+    naming.namespacePattern = env.K8S_PORT_FORWARD_ENV_NAMESPACE_PATTERN;
+  }
+  if (env.K8S_PORT_FORWARD_ENV_LABEL) {
+    naming.environmentLabel = env.K8S_PORT_FORWARD_ENV_LABEL;
+  }
+  return naming;
+}
+
+function logViewerFromEnv(): Partial<LogViewerConfig> {
+  const logViewer: Partial<LogViewerConfig> = {};
+  const env = process.env;
+  if (env.K8S_PORT_FORWARD_LOG_VIEWER) {
+    logViewer.backends = env.K8S_PORT_FORWARD_LOG_VIEWER.split(',')
+      .map((b) => b.trim())
+      .filter(Boolean);
+  }
+  if (env.K8S_PORT_FORWARD_LOG_DIR) {
+    logViewer.fileDir = env.K8S_PORT_FORWARD_LOG_DIR;
+  }
+  return logViewer;
+}
+
+function discoveryFromEnv(): Partial<DiscoveryConfig> {
+  const discovery: Partial<DiscoveryConfig> = {};
+  const env = process.env;
+  if (env.K8S_PORT_FORWARD_DISCOVERY_TTL) {
+    discovery.ttlSeconds = Number(env.K8S_PORT_FORWARD_DISCOVERY_TTL);
+  }
+  if (env.K8S_PORT_FORWARD_DISCOVERY_WATCH) {
+    discovery.watch = env.K8S_PORT_FORWARD_DISCOVERY_WATCH !== 'false';
+  }
+  return discovery;
+}
+
+function stateFromEnv(): Partial<StateConfig> {
+  const state: Partial<StateConfig> = {};
+  const env = process.env;
+  if (env.K8S_PORT_FORWARD_STATE_FILE) {
+    state.file = env.K8S_PORT_FORWARD_STATE_FILE;
+  }
+  if (env.K8S_PORT_FORWARD_ORPHANS) {
+    state.orphans = env.K8S_PORT_FORWARD_ORPHANS as OrphanMode;
+  }
+  return state;
+}
+
+function transportFromEnv(): Partial<TransportConfig> {
+  const transport: Partial<TransportConfig> = {};
+  const env = process.env;
+  if (env.K8S_PORT_FORWARD_TRANSPORT) {
+    transport.mode = env.K8S_PORT_FORWARD_TRANSPORT as TransportName;
+  }
+  if (env.K8S_PORT_FORWARD_HTTP_PORT) {
+    transport.port = Number(env.K8S_PORT_FORWARD_HTTP_PORT);
+  }
+  if (env.K8S_PORT_FORWARD_HTTP_TOKEN) {
+    transport.token = env.K8S_PORT_FORWARD_HTTP_TOKEN;
+  }
+  return transport;
+}
+
+function validateBackend(backend: BackendName): BackendName {
+  if (BACKENDS.includes(backend)) return backend;
+  console.error(`Unknown backend "${backend}", using "kubectl"`);
+  return 'kubectl';
+}
+
+function validatePortRange(portRange: string): string {
+  if (parsePortRange(String(portRange))) return portRange;
+  console.error(
+    `Invalid portRange "${portRange}", using "${DEFAULT_PORT_RANGE}"`
+  );
+  return DEFAULT_PORT_RANGE;
+}
+
+function validateDiscovery(discovery: DiscoveryConfig): DiscoveryConfig {
+  if (!(Number.isFinite(discovery.ttlSeconds) && discovery.ttlSeconds >= 0)) {
+    console.error(
+      `Invalid discovery ttlSeconds "${discovery.ttlSeconds}", using ${DEFAULT_DISCOVERY.ttlSeconds}`
+    );
+    discovery.ttlSeconds = DEFAULT_DISCOVERY.ttlSeconds;
+  }
+  return discovery;
+}
+
+function validateNaming(naming: NamingConfig): NamingConfig {
+  if (!ENVIRONMENT_SOURCES.includes(naming.environmentSource)) {
+    console.error(
+      `Unknown environmentSource "${naming.environmentSource}", using "prefix"`
+    );
+    naming.environmentSource = 'prefix';
+  }
+  if (naming.namespacePattern) {
+    try {
+      new RegExp(naming.namespacePattern);
+    } catch {
+      console.error(
+        `Invalid namespacePattern "${naming.namespacePattern}", using the default`
+      );
+      naming.namespacePattern = undefined;
+    }
+  }
+  return naming;
+}
+
+function validatePolicy(policy: PolicyConfig): PolicyConfig {
+  if (!POLICY_EFFECTS.includes(policy.defaultEffect)) {
+    console.error(
+      `Unknown policy defaultEffect "${policy.defaultEffect}", using "deny"`
+    );
+    policy.defaultEffect = 'deny';
+  }
+  if (!Array.isArray(policy.rules)) {
+    console.error('Policy rules must be an array; denying everything');
+    return { rules: [], defaultEffect: 'deny' };
+  }
+  policy.rules = policy.rules.map((rule, i) => {
+    if (POLICY_EFFECTS.includes(rule?.effect)) return rule;
+    // A broken rule must not silently widen access
+    console.error(
+      `Policy rule ${rule?.name ?? `rules[${i}]`} has unknown effect "${rule?.effect}", treating it as "deny"`
+    );
+    return { ...rule, effect: 'deny' };
+  });
+  return policy;
+}
+
+function validateState(state: StateConfig): StateConfig {
+  if (!ORPHAN_MODES.includes(state.orphans)) {
+    console.error(`Unknown orphans mode "${state.orphans}", using "adopt"`);
+    state.orphans = 'adopt';
+  }
+  return state;
+}
+
+function validateTransport(transport: TransportConfig): TransportConfig {
+  if (!TRANSPORTS.includes(transport.mode)) {
+    console.error(`Unknown transport "${transport.mode}", using "stdio"`);
+    transport.mode = 'stdio';
+  }
+  if (
+    !(
+      Number.isInteger(transport.port) &&
+      transport.port > 0 &&
+      transport.port < 65536
+    )
+  ) {
+    console.error(
+      `Invalid transport port "${transport.port}", using ${DEFAULT_HTTP_PORT}`
+    );
+    transport.port = DEFAULT_HTTP_PORT;
+  }
+  return transport;
+}
+
+/**
+ * Load config once: defaults, then the JSON config file
+ * (K8S_PORT_FORWARD_CONFIG or <configDir>/config.json), then env vars.
+ */
+export function getConfig(): Config {
+  if (cachedConfig) return cachedConfig;
+  const file = readConfigFile(configFilePath());
+  cachedConfig = {
+    backend: validateBackend(
+      (process.env.K8S_PORT_FORWARD_BACKEND as BackendName | undefined) ??
+        file.backend ??
+        'kubectl'
+    ),
+    portRange: validatePortRange(
+      process.env.K8S_PORT_FORWARD_PORT_RANGE ??
+        file.portRange ??
+        DEFAULT_PORT_RANGE
+    ),
+    discovery: validateDiscovery({
+      ...DEFAULT_DISCOVERY,
+      ...file.discovery,
+      ...discoveryFromEnv(),
+    }),
+    naming: validateNaming({
+      ...DEFAULT_NAMING,
+      ...file.naming,
+      ...namingFromEnv(),
+    }),
+    logViewer: {
+      ...DEFAULT_LOG_VIEWER,
+      ...file.logViewer,
+      ...logViewerFromEnv(),
+    },
+    policy: validatePolicy({ ...DEFAULT_POLICY, ...file.policy }),
+    state: validateState({
+      file: join(configDir(), 'state.json'),
+      orphans: 'adopt',
+      ...file.state,
+      ...stateFromEnv(),
+    }),
+    transport: validateTransport({
+      mode: 'stdio',
+      port: DEFAULT_HTTP_PORT,
+      tokenFile: join(configDir(), 'http-token'),
+      ...file.transport,
+      ...transportFromEnv(),
+    }),
+  };
+  return cachedConfig;
+}
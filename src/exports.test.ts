@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+
+import {
+  exportEntries,
+  renderExport,
+  templateError,
+  writeExport,
+} from './exports.js';
+import type { ForwardSpec } from './forwards.js';
+
+function spec(
+  serviceName: string,
+  environment: string,
+  localPort: number,
+  extra: Partial<ForwardSpec> = {}
+): ForwardSpec {
+  return {
+    label: `${environment}~${serviceName}:${localPort}`,
+    serviceName,
+    workload: `${environment}-${serviceName}`,
+    namespace: 'default',
+    environment,
+    podName: `${environment}-${serviceName}-abc12`,
+    target: 'pod',
+    targetRef: `${environment}-${serviceName}-abc12`,
+    localPort,
+    remotePort: 8080,
+    ...extra,
+  };
+}
+
+describe('exportEntries', () => {
+  it('names forwards by service, then environment, then port', () => {
+    const entries = exportEntries([
+      spec('b2b-ecommerce', 'dev', 3000),
+      spec('api', 'dev', 3001),
+      spec('api', 'prod', 3002),
+      spec('web', 'dev', 3003),
+      spec('web', 'dev', 3004),
+    ]);
+    assert.deepEqual(
+      entries.map((e) => [e.name, e.envName]),
+      [
+        ['b2b-ecommerce', 'B2B_ECOMMERCE'],
+        ['dev-api', 'DEV_API'],
+        ['prod-api', 'PROD_API'],
+        ['dev-web-3003', 'DEV_WEB_3003'],
+        ['dev-web-3004', 'DEV_WEB_3004'],
+      ]
+    );
+  });
+
+  it('builds URLs from the scheme and host', () => {
+    const [entry] = exportEntries([spec('api', 'dev', 3001)], {
+      scheme: 'https',
+      host: 'host.docker.internal',
+    });
+    assert.equal(entry.url, 'https://host.docker.internal:3001');
+  });
+});
+
+describe('renderExport', () => {
+  const entries = exportEntries([
+    spec('api', 'dev', 3001),
+    spec('web', 'dev', 3002, { address: '0.0.0.0' }),
+  ]);
+
+  it('renders dotenv, shell and json', () => {
+    assert.equal(
+      renderExport(entries, 'dotenv'),
+      'API_URL=http://localhost:3001\nWEB_URL=http://localhost:3002\n'
+    );
+    assert.equal(
+      renderExport(entries, 'shell'),
+      'export API_URL=http://localhost:3001\nexport WEB_URL=http://localhost:3002\n'
+    );
+    assert.deepEqual(JSON.parse(renderExport(entries, 'json')), {
+      api: 'http://localhost:3001',
+      web: 'http://localhost:3002',
+    });
+  });
+
+  it('maps only forwards on a non-loopback address to host-gateway', () => {
+    assert.equal(
+      renderExport(entries, 'docker-compose'),
+      [
+        'extra_hosts:',
+        '  - "web:host-gateway"',
+        '# web -> http://web:3002',
+        '# api: listens on 127.0.0.1 only, which containers cannot reach; start it with address "0.0.0.0" to map it',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('leaves out extra_hosts when every forward is on loopback', () => {
+    const output = renderExport(
+      exportEntries([spec('api', 'dev', 3001, { address: '127.0.0.1' })]),
+      'docker-compose'
+    );
+    assert.doesNotMatch(output, /extra_hosts|host-gateway/);
+  });
+
+  it('fills template placeholders', () => {
+    assert.equal(
+      renderExport(entries, 'template', {
+        template: '{{NAME}}_HOST={{host}}:{{ localPort }} ({{pod}})',
+      }),
+      'API_HOST=localhost:3001 (dev-api-abc12)\nWEB_HOST=localhost:3002 (dev-web-abc12)\n'
+    );
+  });
+});
+
+describe('templateError', () => {
+  it('reports unknown placeholders', () => {
+    assert.equal(templateError('{{url}}'), undefined);
+    assert.match(templateError('{{constructor}}') ?? '', /\{\{constructor\}\}/);
+    assert.match(
+      templateError('{{hasOwnProperty}}') ?? '',
+      /\{\{hasOwnProperty\}\}/
+    );
+    assert.match(
+      templateError('{{port}}') ?? '',
+      /^unknown placeholder\(s\) \{\{port\}\}; available: /
+    );
+  });
+});
+
+describe('writeExport', () => {
+  it('refuses files outside the working directory', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'k8s-export-'));
+    try {
+      for (const path of ['../forwards.json', join(tmpdir(), 'x.json'), '.']) {
+        await assert.rejects(
+          writeExport(path, '{}\n', 'json', dir),
+          /is not a file in the working directory/
+        );
+      }
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('merges dotenv files and replaces other formats', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'k8s-export-'));
+    try {
+      const envFile = join(dir, '.env');
+      writeFileSync(envFile, 'KEEP=1\nAPI_URL=http://old:1\n');
+      const result = await writeExport(
+        '.env',
+        'API_URL=http://localhost:3001\nWEB_URL=http://localhost:3002\n',
+        'dotenv',
+        dir
+      );
+      assert.deepEqual(result, { path: envFile, merged: true });
+      assert.equal(
+        readFileSync(envFile, 'utf8'),
+        'KEEP=1\nAPI_URL=http://localhost:3001\nWEB_URL=http://localhost:3002\n'
+      );
+
+      const jsonFile = join(dir, 'nested', 'forwards.json');
+      await writeExport(jsonFile, '{}\n', 'json', dir);
+      assert.equal(readFileSync(jsonFile, 'utf8'), '{}\n');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,209 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, relative, resolve, sep } from 'node:path';
+
+import type { ForwardSpec } from './forwards.js';
+import { isLoopbackAddress, LOOPBACK_ADDRESS, shellQuote } from './util.js';
+
+export const EXPORT_FORMATS = [
+  'dotenv',
+  'shell',
+  'json',
+  'docker-compose',
+  'template',
+] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** One forward as the export formats refer to it. */
+export interface ExportEntry {
+  /**
+   * Unique within one export: the short service name, prefixed with the
+   * environment (and suffixed with the local port) when forwards share it.
+   */
+  name: string;
+  /** name in upper snake case, e.g. B2B_ECOMMERCE. */
+  envName: string;
+  host: string;
+  url: string;
+  spec: ForwardSpec;
+}
+
+export interface ExportOptions {
+  /** URL scheme (default: http). */
+  scheme?: string;
+  /** Host the URLs point at (default: localhost). */
+  host?: string;
+  /** Rendered once per forward for the "template" format. */
+  template?: string;
+}
+
+// Formats made of VAR=value lines, which are merged into an existing file
+const ASSIGNMENT_FORMATS: readonly ExportFormat[] = ['dotenv', 'shell'];
+const ASSIGNMENT_LINE = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)=/;
+
+function envNameOf(name: string): string {
+  const upper = name.replace(/[^A-Za-z0-9]+/g, '_').toUpperCase();
+  return /^[0-9]/.test(upper) ? `_${upper}` : upper;
+}
+
+/** Name forwards by service, adding the environment and then the port where needed. */
+export function exportEntries(
+  specs: readonly ForwardSpec[],
+  options: ExportOptions = {}
+): ExportEntry[] {
+  const scheme = options.scheme ?? 'http';
+  const host = options.host ?? 'localhost';
+  const namings: ((s: ForwardSpec) => string)[] = [
+    (s) => s.serviceName,
+    (s) => `${s.environment}-${s.serviceName}`,
+    (s) => `${s.environment}-${s.serviceName}-${s.localPort}`,
+  ];
+  const count = (naming: (s: ForwardSpec) => string, name: string) =>
+    specs.filter((s) => naming(s) === name).length;
+  return specs.map((spec) => {
+    const naming =
+      namings.find((n) => count(n, n(spec)) === 1) ??
+      namings[namings.length - 1];
+    const name = naming(spec);
+    return {
+      name,
+      envName: envNameOf(name),
+      host,
+      url: `${scheme}://${host}:${spec.localPort}`,
+      spec,
+    };
+  });
+}
+
+const TEMPLATE_FIELDS: Record<string, (e: ExportEntry) => string> = {
+  name: (e) => e.name,
+  NAME: (e) => e.envName,
+  url: (e) => e.url,
+  host: (e) => e.host,
+  localPort: (e) => String(e.spec.localPort),
+  remotePort: (e) => String(e.spec.remotePort),
+  serviceName: (e) => e.spec.serviceName,
+  environment: (e) => e.spec.environment,
+  namespace: (e) => e.spec.namespace,
+  pod: (e) => e.spec.podName,
+  label: (e) => e.spec.label,
+  context: (e) => e.spec.context ?? '',
+};
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+/** Check a template before rendering; returns the problem, if any. */
+export function templateError(template: string): string | undefined {
+  const unknown = [...template.matchAll(PLACEHOLDER)]
+    .map((m) => m[1])
+    .filter((field) => !Object.hasOwn(TEMPLATE_FIELDS, field));
+  if (unknown.length === 0) return undefined;
+  const list = (fields: string[]) => fields.map((f) => `{{${f}}}`).join(', ');
+  return `unknown placeholder(s) ${list(unknown)}; available: ${list(Object.keys(TEMPLATE_FIELDS))}`;
+}
+
+export function renderExport(
+  entries: ExportEntry[],
+  format: ExportFormat,
+  options: ExportOptions = {}
+): string {
+  switch (format) {
+    case 'dotenv':
+      return entries.map((e) => `${e.envName}_URL=${e.url}\n`).join('');
+    case 'shell':
+      return entries
+        .map((e) => `export ${e.envName}_URL=${shellQuote([e.url], 'posix')}\n`)
+        .join('');
+    case 'json':
+      return `${JSON.stringify(
+        Object.fromEntries(entries.map((e) => [e.name, e.url])),
+        null,
+        2
+      )}\n`;
+    case 'docker-compose': {
+      // Containers reach the host's forwards under the service names, but
+      // not those listening on loopback (only Docker Desktop forwards that)
+      const reachable = entries.filter(
+        (e) => e.spec.address && !isLoopbackAddress(e.spec.address)
+      );
+      const loopback = entries.filter((e) => !reachable.includes(e));
+      return [
+        ...(reachable.length > 0 ? ['extra_hosts:'] : []),
+        ...reachable.map((e) => `  - "${e.name}:host-gateway"`),
+        ...reachable.map(
+          (e) =>
+            `# ${e.name} -> ${e.url.replace(`://${e.host}:`, `://${e.name}:`)}`
+        ),
+        ...loopback.map(
+          (e) =>
+            `# ${e.name}: listens on ${e.spec.address ?? LOOPBACK_ADDRESS} only, which containers cannot reach; start it with address "0.0.0.0" to map it`
+        ),
+        '',
+      ].join('\n');
+    }
+    case 'template': {
+      const template = options.template ?? '';
+      return entries
+        .map(
+          (e) =>
+            template.replace(PLACEHOLDER, (_, field: string) =>
+              TEMPLATE_FIELDS[field](e)
+            ) + '\n'
+        )
+        .join('');
+    }
+  }
+}
+
+/** Replace the assignments of exported variables in place and append the new ones. */
+function mergeAssignments(existing: string, rendered: string): string {
+  const updates = new Map<string, string>();
+  for (const line of rendered.split('\n')) {
+    const match = ASSIGNMENT_LINE.exec(line);
+    if (match) updates.set(match[1], line);
+  }
+  const lines = existing.replace(/\n$/, '').split('\n');
+  const merged = lines.map((line) => {
+    const variable = ASSIGNMENT_LINE.exec(line)?.[1];
+    if (!variable || !updates.has(variable)) return line;
+    const update = updates.get(variable)!;
+    updates.delete(variable);
+    return update;
+  });
+  return `${[...merged, ...updates.values()].join('\n')}\n`;
+}
+
+/**
+ * Write an export to a file under the working directory (relative paths are
+ * resolved against it). dotenv and shell exports are merged into an existing
+ * file, so other variables are kept; other formats replace it. The path comes
+ * from tool arguments, so files outside the working directory are refused.
+ */
+export async function writeExport(
+  path: string,
+  content: string,
+  format: ExportFormat,
+  root: string = process.cwd()
+): Promise<{ path: string; merged: boolean }> {
+  const target = resolve(root, path);
+  const inside = relative(root, target);
+  if (
+    !inside ||
+    inside === '..' ||
+    inside.startsWith(`..${sep}`) ||
+    isAbsolute(inside)
+  ) {
+    throw new Error(`${path} is not a file in the working directory ${root}`);
+  }
+  let existing: string | null = null;
+  if (ASSIGNMENT_FORMATS.includes(format)) {
+    existing = await readFile(target, 'utf8').catch(() => null);
+  }
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(
+    target,
+    existing ? mergeAssignments(existing, content) : content,
+    'utf8'
+  );
+  return { path: target, merged: Boolean(existing) };
+}
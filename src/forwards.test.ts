@@ -0,0 +1,195 @@
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { once } from 'node:events';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+
+import {
+  getForwards,
+  restoreForwards,
+  startForward,
+  stopForwards,
+  waitForReady,
+  type SupervisedForward,
+} from './forwards.js';
+import type { K8sPod } from './k8s.js';
+import { readState, writeState, type ForwardRecord } from './state.js';
+import {
+  fakePod,
+  startFakeApiServer,
+  type FakeApiServer,
+} from './testing/fakeapi.js';
+import { freeEphemeralPort } from './util.js';
+
+let fake: FakeApiServer;
+let dir: string;
+let orphan: ChildProcess;
+let record: ForwardRecord;
+
+/** A process whose command line looks like the kubectl of a recorded forward. */
+function spawnOrphan(port: number): ChildProcess {
+  return spawn(
+    process.execPath,
+    [
+      '-e',
+      'setInterval(() => {}, 1000)',
+      'kubectl',
+      'port-forward',
+      'web-1',
+      `${port}:8080`,
+    ],
+    { stdio: 'ignore' }
+  );
+}
+
+/** A pod of workload dev-web in the given namespace. */
+function devWebPod(name: string, namespace: string): K8sPod {
+  const pod = fakePod(name, {}, [{ name: 'http', containerPort: 8080 }]);
+  pod.metadata.namespace = namespace;
+  return pod;
+}
+
+/** Poll until `check` holds, failing with the forward's output after 5s. */
+async function until(
+  f: SupervisedForward,
+  check: () => boolean
+): Promise<void> {
+  const deadline = Date.now() + 5000;
+  while (!check() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  assert.ok(check(), f.output.join('\n'));
+}
+
+/** PID of a process that has already exited, standing in for a dead server. */
+async function deadPid(): Promise<number> {
+  const child = spawn(process.execPath, ['-e', ''], { stdio: 'ignore' });
+  await once(child, 'exit');
+  return child.pid!;
+}
+
+before(async () => {
+  fake = await startFakeApiServer();
+  dir = mkdtempSync(join(tmpdir(), 'k8s-forwards-'));
+  // Read by getConfig on first use
+  process.env.K8S_PORT_FORWARD_CONFIG = join(dir, 'config.json');
+  process.env.K8S_PORT_FORWARD_STATE_FILE = join(dir, 'state.json');
+  process.env.K8S_PORT_FORWARD_BACKEND = 'api';
+});
+
+after(async () => {
+  await fake.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  fake.pods = [
+    fakePod('web-1', { app: 'web' }, [{ name: 'http', containerPort: 8080 }]),
+  ];
+  const localPort = await freeEphemeralPort();
+  orphan = spawnOrphan(localPort);
+  record = {
+    pid: orphan.pid!,
+    serverPid: await deadPid(),
+    label: `dev~web:${localPort}`,
+    serviceName: 'web',
+    workload: 'web',
+    namespace: 'default',
+    environment: 'dev',
+    podName: 'web-1',
+    target: 'pod',
+    targetRef: 'web-1',
+    localPort,
+    remotePort: 8080,
+    kubeconfig: fake.kubeconfig,
+    startedAt: new Date().toISOString(),
+  };
+  writeState([record]);
+});
+
+afterEach(async () => {
+  orphan.kill('SIGKILL');
+  await stopForwards(getForwards());
+});
+
+describe('restoreForwards', () => {
+  it('replaces a surviving kubectl with a supervised forward', async () => {
+    const exited = once(orphan, 'exit');
+    const result = await restoreForwards('adopt');
+    assert.deepEqual(result, { adopted: [record.label], cleanedUp: [] });
+    await exited;
+
+    const [f] = getForwards();
+    assert.equal(f.replacedPid, record.pid);
+    assert.equal(f.spec.localPort, record.localPort);
+    assert.equal(f.spec.kubeconfig, fake.kubeconfig);
+    // Only ready once the new port-forward is listening
+    assert.equal(f.state, 'starting');
+    assert.deepEqual(await waitForReady(f, 5000), { ready: true });
+  });
+
+  it('only stops the kubectl in cleanup mode', async () => {
+    const exited = once(orphan, 'exit');
+    const result = await restoreForwards('cleanup');
+    assert.deepEqual(result, { adopted: [], cleanedUp: [record.label] });
+    await exited;
+    assert.equal(getForwards().length, 0);
+    assert.deepEqual(readState(), []);
+  });
+
+  it('leaves a reused PID alone and drops its record', async () => {
+    writeState([{ ...record, remotePort: 9999 }]);
+    const result = await restoreForwards('adopt');
+    assert.deepEqual(result, { adopted: [], cleanedUp: [] });
+    assert.equal(orphan.exitCode, null);
+    assert.equal(orphan.signalCode, null);
+    assert.deepEqual(readState(), []);
+  });
+
+  it('is the only one to drop the records of dead servers', async () => {
+    // Another server starting a forward leaves the orphan for restoreForwards
+    const localPort = await freeEphemeralPort();
+    const f = startForward({ ...record, localPort, label: `web:${localPort}` });
+    assert.deepEqual(await waitForReady(f, 5000), { ready: true });
+    await stopForwards([f]);
+    assert.deepEqual(readState(), [record]);
+  });
+
+  it('keeps records of servers that are still running', async () => {
+    writeState([{ ...record, serverPid: orphan.pid! }]);
+    const result = await restoreForwards('adopt');
+    assert.deepEqual(result, { adopted: [], cleanedUp: [] });
+    assert.equal(orphan.exitCode, null);
+    assert.equal(readState().length, 1);
+  });
+});
+
+describe('restarting a pod forward', () => {
+  it('finds the new pod of its workload when its name is not unique', async () => {
+    // dev-web runs in two namespaces, so discovery calls it dev-web.team-a
+    fake.pods = [
+      devWebPod('dev-web-5d8f9-new12', 'team-a'),
+      devWebPod('dev-web-7c6b5-other', 'team-b'),
+    ];
+    const localPort = await freeEphemeralPort();
+    const f = startForward({
+      label: `dev~dev-web.team-a:${localPort}`,
+      serviceName: 'dev-web.team-a',
+      workload: 'dev-web',
+      namespace: 'team-a',
+      environment: 'dev',
+      podName: 'dev-web-5d8f9-gone1',
+      target: 'pod',
+      targetRef: 'dev-web-5d8f9-gone1',
+      localPort,
+      remotePort: 8080,
+      kubeconfig: fake.kubeconfig,
+    });
+    await until(f, () => f.spec.podName !== 'dev-web-5d8f9-gone1');
+    assert.equal(f.spec.podName, 'dev-web-5d8f9-new12');
+    assert.equal(f.spec.targetRef, 'dev-web-5d8f9-new12');
+    await until(f, () => f.state === 'ready');
+  });
+});
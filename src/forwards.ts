@@ -0,0 +1,495 @@
+import { getBackend, type BackendProcess } from './backend.js';
+import {
+  getServicePods,
+  pickPod,
+  selectPod,
+  type ForwardTarget,
+  type KubeTarget,
+  type PodSelection,
+} from './k8s.js';
+import { getConfig, type OrphanMode } from './config.js';
+import { stopAllLogFollowers, stopFollowingLogs } from './logs.js';
+import { closeProxy, startProxy, type TrafficProxy } from './proxy.js';
+import {
+  isProcessAlive,
+  isRecordedForward,
+  readState,
+  updateState,
+  type ForwardRecord,
+} from './state.js';
+import { canConnect, LOOPBACK_ADDRESS } from './util.js';
+
+/** Everything needed to (re)start one port-forward. */
+export interface ForwardSpec extends KubeTarget {
+  label: string;
+  /** Short service name, as accepted by resolveService. */
+  serviceName: string;
+  /** Full workload name, used to find the pods of the service again. */
+  workload: string;
+  namespace: string;
+  environment: string;
+  podName: string;
+  target: ForwardTarget;
+  targetRef: string;
+  localPort: number;
+  /** Address localPort listens on (default: 127.0.0.1). */
+  address?: string;
+  remotePort: number | string;
+  /** Port the port-forward binds when a traffic proxy listens on localPort. */
+  forwardPort?: number;
+  /** How podName was chosen, applied again when the pod is re-resolved. */
+  podSelection?: PodSelection;
+}
+
+export type ForwardState = 'starting' | 'ready' | 'failed' | 'exited';
+
+export interface SupervisedForward {
+  spec: ForwardSpec;
+  /** kubectl child or in-process forward of the current run. */
+  process: BackendProcess | null;
+  /** kubectl of a previous server that this forward replaced on startup. */
+  replacedPid: number | null;
+  state: ForwardState;
+  startedAt: Date;
+  /** Last OUTPUT_BUFFER_LINES lines of port-forward output, oldest first. */
+  output: string[];
+  /** Total number of restarts since the forward was started. */
+  restarts: number;
+  /** Consecutive failed runs; reset once a run stays up for STABLE_AFTER_MS. */
+  failures: number;
+  stopped: boolean;
+  retryTimer: NodeJS.Timeout | null;
+  /** Traffic proxy on localPort, for forwards started with a forwardPort. */
+  proxy: TrafficProxy | null;
+}
+
+const RESTART_BASE_DELAY_MS = 1000;
+const RESTART_MAX_DELAY_MS = 30_000;
+const MAX_RESTARTS = 5;
+const STABLE_AFTER_MS = 60_000;
+const OUTPUT_BUFFER_LINES = 20;
+// How long an orphaned kubectl gets to exit after SIGTERM before SIGKILL
+const ORPHAN_EXIT_GRACE_MS = 2000;
+
+// Printed by kubectl once the local listener is bound
+const READY_PATTERN = /^Forwarding from /m;
+
+const READY_POLL_INTERVAL_MS = 100;
+// After the first test connection, how long to wait for kubectl to report a forwarding error
+const READY_GRACE_MS = 500;
+
+// kubectl error lines worth surfacing (RBAC denials, wrong remote port, missing pod, ...)
+const ERROR_LINE_PATTERN = /error|forbidden|unable|refused|not found/i;
+
+// kubectl sometimes keeps running after the tunnel is gone; treat this as a failure
+const LOST_CONNECTION_PATTERN = /lost connection to pod/i;
+
+// Global tracker for supervised port-forwards
+const forwards: SupervisedForward[] = [];
+
+export function getForwards(): readonly SupervisedForward[] {
+  return forwards;
+}
+
+/** Optional filters for picking forwards; all given fields must match. */
+export interface ForwardSelector {
+  serviceName?: string;
+  label?: string;
+  localPort?: number;
+  namespace?: string;
+  environment?: string;
+}
+
+export function selectForwards(selector: ForwardSelector): SupervisedForward[] {
+  return forwards.filter(({ spec }) => {
+    if (selector.serviceName && spec.serviceName !== selector.serviceName)
+      return false;
+    if (selector.label && spec.label !== selector.label) return false;
+    if (selector.localPort != null && spec.localPort !== selector.localPort)
+      return false;
+    if (selector.namespace && spec.namespace !== selector.namespace)
+      return false;
+    if (selector.environment && spec.environment !== selector.environment)
+      return false;
+    return true;
+  });
+}
+
+/** Local port the port-forward itself binds (behind the proxy, if any). */
+export function boundPort(spec: ForwardSpec): number {
+  return spec.forwardPort ?? spec.localPort;
+}
+
+/** Address the port-forward itself binds (default: loopback); behind a proxy it stays on loopback. */
+export function boundAddress(spec: ForwardSpec): string | undefined {
+  return spec.forwardPort == null ? spec.address : undefined;
+}
+
+/** Where readiness probes connect: a wildcard address is reachable on loopback. */
+function probeAddress(spec: ForwardSpec): string {
+  const address = boundAddress(spec) ?? LOOPBACK_ADDRESS;
+  return address === '0.0.0.0' || address === '::' ? LOOPBACK_ADDRESS : address;
+}
+
+/** PID of the kubectl process currently serving a forward (none for in-process forwards). */
+export function forwardPid(f: SupervisedForward): number | undefined {
+  return f.process?.pid;
+}
+
+function signal(f: SupervisedForward, sig: NodeJS.Signals): void {
+  try {
+    f.process?.kill(sig);
+  } catch {
+    // already gone
+  }
+}
+
+/**
+ * Record running forwards in the state file. Records of other servers are
+ * kept, even of dead ones: only restoreForwards drops those (via `drop`), once
+ * it has dealt with their kubectl.
+ */
+function persistState(
+  drop: (record: ForwardRecord) => boolean = () => false
+): void {
+  const ours: ForwardRecord[] = [];
+  for (const f of forwards) {
+    const pid = forwardPid(f);
+    if (f.stopped || pid == null) continue;
+    const { spec } = f;
+    ours.push({
+      pid,
+      serverPid: process.pid,
+      label: spec.label,
+      serviceName: spec.serviceName,
+      workload: spec.workload,
+      namespace: spec.namespace,
+      environment: spec.environment,
+      podName: spec.podName,
+      target: spec.target,
+      targetRef: spec.targetRef,
+      localPort: spec.localPort,
+      address: spec.address,
+      remotePort: spec.remotePort,
+      forwardPort: spec.forwardPort,
+      podSelection: spec.podSelection,
+      context: spec.context,
+      kubeconfig: spec.kubeconfig,
+      startedAt: f.startedAt.toISOString(),
+    });
+  }
+  try {
+    updateState((records) => [
+      ...records.filter((r) => r.serverPid !== process.pid && !drop(r)),
+      ...ours,
+    ]);
+  } catch (err) {
+    process.stderr.write(
+      `Failed to write forward state: ${err instanceof Error ? err.message : err}\n`
+    );
+  }
+}
+
+function log(f: SupervisedForward, message: string): void {
+  // MCP uses stdout for protocol; write kubectl output to stderr so it doesn't break the stream
+  process.stderr.write(`[${f.spec.label}] ${message}`);
+  for (const line of message.split('\n')) {
+    if (line.trim()) f.output.push(line.trimEnd());
+  }
+  if (f.output.length > OUTPUT_BUFFER_LINES) {
+    f.output.splice(0, f.output.length - OUTPUT_BUFFER_LINES);
+  }
+}
+
+/**
+ * Stop every forward, traffic proxy and log follower synchronously, so the
+ * process can exit right after; nothing is left recorded for a later server.
+ */
+export function shutdownForwards(): void {
+  for (const f of forwards) {
+    f.stopped = true;
+    if (f.retryTimer) clearTimeout(f.retryTimer);
+    if (f.proxy) closeProxy(f.proxy);
+    signal(f, 'SIGTERM');
+  }
+  stopAllLogFollowers();
+  persistState();
+}
+
+/**
+ * Look up the pod currently backing a pod-pinned forward among the pods of its
+ * workload: the recorded pod selection, or else a Ready pod (any Running one
+ * when none is Ready). Short names are not used, since they depend on which
+ * other workloads discovery saw.
+ */
+async function reresolvePodName(spec: ForwardSpec): Promise<string | null> {
+  if (spec.podSelection) {
+    const pod = await selectPod(
+      spec.namespace,
+      spec.workload,
+      spec.podSelection,
+      spec
+    );
+    return pod.metadata.name;
+  }
+  const pods = await getServicePods(spec.namespace, spec.workload, spec);
+  const pod = pickPod(pods, 'ready') ?? pickPod(pods, 'newest');
+  return pod?.metadata.name ?? null;
+}
+
+function spawnChild(f: SupervisedForward): void {
+  const startedAt = Date.now();
+  const p = getBackend().portForward({
+    ...f.spec,
+    localPort: boundPort(f.spec),
+    address: boundAddress(f.spec),
+  });
+  f.process = p;
+  f.state = 'starting';
+  persistState();
+
+  const onOutput = (data: Buffer) => {
+    const text = data.toString();
+    log(f, text);
+    if (READY_PATTERN.test(text) && f.process === p) f.state = 'ready';
+    if (LOST_CONNECTION_PATTERN.test(text) && f.process === p) {
+      p.kill();
+    }
+  };
+  p.stdout?.on('data', onOutput);
+  p.stderr?.on('data', onOutput);
+
+  let exited = false;
+  const onExit = (reason: string) => {
+    if (exited) return;
+    exited = true;
+    if (f.process === p) {
+      f.process = null;
+      f.state = 'exited';
+      persistState();
+    }
+    log(f, `port-forward ${reason}\n`);
+    if (f.stopped) return;
+    if (Date.now() - startedAt >= STABLE_AFTER_MS) f.failures = 0;
+    scheduleRestart(f);
+  };
+  p.on('error', (err) => onExit(`failed: ${err.message}`));
+  p.on('close', (code) => onExit(`exited with code ${code}`));
+}
+
+function scheduleRestart(f: SupervisedForward): void {
+  if (f.failures >= MAX_RESTARTS) {
+    f.state = 'failed';
+    log(f, `giving up after ${MAX_RESTARTS} failed restart attempts\n`);
+    return;
+  }
+  const delay = Math.min(
+    RESTART_BASE_DELAY_MS * 2 ** f.failures,
+    RESTART_MAX_DELAY_MS
+  );
+  f.failures++;
+  log(f, `restarting in ${delay}ms (attempt ${f.failures}/${MAX_RESTARTS})\n`);
+  f.retryTimer = setTimeout(() => {
+    f.retryTimer = null;
+    void restart(f);
+  }, delay);
+}
+
+async function restart(f: SupervisedForward): Promise<void> {
+  if (f.stopped) return;
+  // Service/deployment targets are re-resolved by every run; pods must be looked up again
+  if (f.spec.target === 'pod') {
+    try {
+      const podName = await reresolvePodName(f.spec);
+      if (!podName) {
+        log(f, `no Running pod found for ${f.spec.serviceName}\n`);
+        scheduleRestart(f);
+        return;
+      }
+      f.spec.podName = podName;
+      f.spec.targetRef = podName;
+    } catch (err) {
+      log(
+        f,
+        `failed to re-resolve pod: ${err instanceof Error ? err.message : err}\n`
+      );
+      scheduleRestart(f);
+      return;
+    }
+  }
+  if (f.stopped) return;
+  f.restarts++;
+  spawnChild(f);
+}
+
+/** Spawn a port-forward and keep it alive with backoff restarts until stopped. */
+export function startForward(spec: ForwardSpec): SupervisedForward {
+  const f: SupervisedForward = {
+    spec,
+    process: null,
+    replacedPid: null,
+    state: 'starting',
+    startedAt: new Date(),
+    output: [],
+    restarts: 0,
+    failures: 0,
+    stopped: false,
+    retryTimer: null,
+    proxy: null,
+  };
+  if (spec.forwardPort != null) {
+    f.proxy = startProxy(spec.localPort, spec.forwardPort, spec.address);
+  }
+  forwards.push(f);
+  spawnChild(f);
+  return f;
+}
+
+/**
+ * Stop the given forwards (SIGINT, then SIGKILL after a grace period) and
+ * remove them from the tracker. Returns how many were stopped.
+ */
+export async function stopForwards(
+  targets: readonly SupervisedForward[]
+): Promise<number> {
+  const stopping = [...targets];
+
+  // Send SIGINT (graceful shutdown) to all processes
+  for (const f of stopping) {
+    f.stopped = true;
+    if (f.retryTimer) {
+      clearTimeout(f.retryTimer);
+      f.retryTimer = null;
+    }
+    signal(f, 'SIGINT');
+  }
+
+  // Give processes 500ms to shut down gracefully
+  if (stopping.length > 0) {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+
+  // Force-kill any remaining processes with SIGKILL
+  for (const f of stopping) {
+    if (f.process) {
+      signal(f, 'SIGKILL');
+    }
+    stopFollowingLogs(f.spec.label);
+    if (f.proxy) closeProxy(f.proxy);
+    const index = forwards.indexOf(f);
+    if (index !== -1) forwards.splice(index, 1);
+  }
+  if (stopping.length > 0) persistState();
+
+  return stopping.length;
+}
+
+/** SIGTERM a kubectl we did not spawn and wait for it to exit (SIGKILL after a grace period). */
+async function terminateOrphan(pid: number): Promise<void> {
+  try {
+    process.kill(pid, 'SIGTERM');
+  } catch {
+    return; // already gone
+  }
+  const deadline = Date.now() + ORPHAN_EXIT_GRACE_MS;
+  while (isProcessAlive(pid) && Date.now() < deadline) {
+    await delay(READY_POLL_INTERVAL_MS);
+  }
+  if (isProcessAlive(pid)) {
+    try {
+      process.kill(pid, 'SIGKILL');
+    } catch {
+      // exited meanwhile
+    }
+  }
+}
+
+export interface RestoreResult {
+  adopted: string[];
+  cleanedUp: string[];
+}
+
+/**
+ * Deal with forwards recorded by servers that are no longer running. A
+ * surviving kubectl still writes to the pipes of the dead server and exits on
+ * its next connection, so it cannot simply be kept: mode "adopt" replaces it
+ * with a supervised port-forward on the same ports, "cleanup" only kills it.
+ * Records whose process is gone (or was replaced) are dropped.
+ */
+export async function restoreForwards(
+  mode: OrphanMode = getConfig().state.orphans
+): Promise<RestoreResult> {
+  const result: RestoreResult = { adopted: [], cleanedUp: [] };
+  const orphans = readState().filter(
+    (r) => r.serverPid === process.pid || !isProcessAlive(r.serverPid)
+  );
+  for (const record of orphans) {
+    if (!(await isRecordedForward(record))) continue;
+    await terminateOrphan(record.pid);
+    if (mode === 'cleanup') {
+      result.cleanedUp.push(record.label);
+      continue;
+    }
+    const { pid, serverPid: _, startedAt: __, ...spec } = record;
+    const f = startForward(spec);
+    f.replacedPid = pid;
+    log(f, `replaced port-forward (pid ${pid}) of a previous server\n`);
+    result.adopted.push(record.label);
+  }
+  const handled = new Set(orphans.map((r) => `${r.serverPid}:${r.pid}`));
+  persistState((r) => handled.has(`${r.serverPid}:${r.pid}`));
+  return result;
+}
+
+export interface ReadinessResult {
+  ready: boolean;
+  error?: string;
+}
+
+function lastErrorLine(f: SupervisedForward): string | undefined {
+  return [...f.output].reverse().find((line) => ERROR_LINE_PATTERN.test(line));
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wait until kubectl reports "Forwarding from" and the local port accepts a
+ * connection, or until the forward exits or the timeout passes. With a
+ * traffic proxy, the port-forward is probed directly (so probes are not
+ * counted) and the proxy must be listening.
+ */
+export async function waitForReady(
+  f: SupervisedForward,
+  timeoutMs: number
+): Promise<ReadinessResult> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (f.state === 'exited' || f.state === 'failed') {
+      return {
+        ready: false,
+        error:
+          lastErrorLine(f) ??
+          'port-forward exited before the forward was ready',
+      };
+    }
+    if (f.proxy?.error) return { ready: false, error: f.proxy.error };
+    if (
+      f.state === 'ready' &&
+      (!f.proxy || f.proxy.listening) &&
+      (await canConnect(boundPort(f.spec), probeAddress(f.spec)))
+    ) {
+      // The test connection makes kubectl dial the pod; a bad remote port shows up now
+      await delay(READY_GRACE_MS);
+      const error = lastErrorLine(f);
+      if (error) return { ready: false, error };
+      if (f.state === 'ready') return { ready: true };
+    }
+    await delay(READY_POLL_INTERVAL_MS);
+  }
+  return {
+    ready: false,
+    error:
+      lastErrorLine(f) ??
+      `timed out after ${timeoutMs}ms waiting for localhost:${f.spec.localPort}`,
+  };
+}
@@ -0,0 +1,139 @@
+import { randomBytes, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import { dirname } from 'node:path';
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+
+import type { TransportConfig } from './config.js';
+
+const SSE_PATH = '/sse';
+const MESSAGES_PATH = '/messages';
+
+// Host headers accepted, so web pages cannot reach the server by DNS rebinding
+const LOCAL_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+
+export interface HttpTransport {
+  /** SSE endpoint clients connect to. */
+  url: string;
+  /** Where the token came from: "config" or the token file. */
+  tokenSource: string;
+  close(): Promise<void>;
+}
+
+/** The configured token, else the one saved by an earlier run, else a new one (saved for next time). */
+async function loadToken(
+  config: TransportConfig
+): Promise<{ token: string; source: string }> {
+  if (config.token) return { token: config.token, source: 'config' };
+  const saved = await readFile(config.tokenFile, 'utf8').catch(() => '');
+  if (saved.trim()) return { token: saved.trim(), source: config.tokenFile };
+  const token = randomBytes(24).toString('hex');
+  await mkdir(dirname(config.tokenFile), { recursive: true });
+  await writeFile(config.tokenFile, `${token}\n`, { mode: 0o600 });
+  return { token, source: config.tokenFile };
+}
+
+function isLocalHost(req: IncomingMessage): boolean {
+  const host = (req.headers.host ?? '').replace(/:\d+$/, '');
+  return LOCAL_HOSTS.includes(host);
+}
+
+/** Token from "Authorization: Bearer <token>" or, for clients that cannot set headers, ?token=. */
+function hasToken(req: IncomingMessage, url: URL, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const given = header.startsWith('Bearer ')
+    ? header.slice('Bearer '.length)
+    : (url.searchParams.get('token') ?? '');
+  const a = Buffer.from(given);
+  const b = Buffer.from(token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function reply(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain' }).end(`${message}\n`);
+}
+
+/**
+ * Serve MCP over SSE on 127.0.0.1. Every GET /sse opens a session with its
+ * own MCP server from createServer; they all share this process, and with it
+ * the forwards. Messages are POSTed to /messages?sessionId=..., where the
+ * session id (only ever sent on an authenticated stream) stands in for the
+ * token.
+ */
+export async function startHttpTransport(
+  createMcpServer: () => Server,
+  config: TransportConfig
+): Promise<HttpTransport> {
+  const { token, source } = await loadToken(config);
+  const sessions = new Map<string, SSEServerTransport>();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!isLocalHost(req)) {
+      reply(res, 403, 'Forbidden: only localhost may connect');
+      return;
+    }
+    if (url.pathname === SSE_PATH && req.method === 'GET') {
+      if (!hasToken(req, url, token)) {
+        reply(res, 401, 'Unauthorized: missing or wrong token');
+        return;
+      }
+      const transport = new SSEServerTransport(MESSAGES_PATH, res);
+      sessions.set(transport.sessionId, transport);
+      res.on('close', () => sessions.delete(transport.sessionId));
+      await createMcpServer().connect(transport);
+      return;
+    }
+    if (url.pathname === MESSAGES_PATH && req.method === 'POST') {
+      const transport = sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!transport) {
+        reply(res, 404, 'Unknown session; connect to /sse first');
+        return;
+      }
+      // Answers bad messages itself before throwing
+      await transport.handlePostMessage(req, res).catch(() => {});
+      return;
+    }
+    reply(res, 404, 'Not found');
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      console.error(
+        `HTTP transport error: ${err instanceof Error ? err.message : err}`
+      );
+      if (!res.headersSent) reply(res, 500, 'Internal error');
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (err: NodeJS.ErrnoException) => {
+      reject(
+        new Error(
+          err.code === 'EADDRINUSE'
+            ? `localhost:${config.port} is in use; another server may already be running there (clients can share it)`
+            : `cannot listen on localhost:${config.port}: ${err.message}`
+        )
+      );
+    });
+    server.listen(config.port, '127.0.0.1', () => resolve());
+  });
+
+  return {
+    url: `http://127.0.0.1:${config.port}${SSE_PATH}`,
+    tokenSource: source,
+    close: () =>
+      new Promise((resolve) => {
+        // Ends open SSE streams; missing before Node 18.2, where they end with the process
+        if (typeof server.closeAllConnections === 'function') {
+          server.closeAllConnections();
+        }
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { spawn } from 'node:child_process';
+import { constants as osConstants } from 'node:os';
 import { pathToFileURL } from 'node:url';
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
@@ -11,159 +11,653 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import {
+  getContexts,
   getNamespaces,
   getPods,
+  getLogs,
+  discoverPods,
+  describeDiscovery,
+  getServicePodNames,
+  getServicePods,
+  isPodReady,
+  describePodStatus,
+  selectPod,
+  getPod,
   parseServicesMap,
-  getServicePort,
+  detectPorts,
+  pickPort,
+  describePort,
   resolveService,
+  matchServiceName,
+  describeServiceMatch,
+  describeCandidates,
+  forwardTargetRef,
+  stopDiscoveryWatches,
+  type ForwardTarget,
+  type K8sPod,
+  type KubeTarget,
+  type PodSelection,
+  type ServicesMap,
 } from './k8s.js';
-import { openLogsInTerminal, isValidPort } from './util.js';
-
-const server = new Server(
-  {
-    name: 'k8s-port-forward-mcp',
-    version: '1.0.3',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
-
-const serviceConfigSchema = {
-  type: 'object' as const,
-  properties: {
-    serviceName: {
-      type: 'string' as const,
-      description:
-        'Short name of the service (e.g. b2b-ecommerce, b2b-ticketing). Call list_k8s_services first to get exact names.',
-    },
-    namespace: {
-      type: 'string' as const,
-      description:
-        "Optional: Namespace to target (e.g. shared-services). Use when the user says 'from shared services namespace'.",
-    },
-    localPort: {
-      type: 'number' as const,
-      description: 'Local port to bind (e.g. 3000, 3002).',
-    },
-    remotePort: {
-      type: 'number' as const,
-      description:
-        'Optional: Remote (cluster) port. If omitted, the server detects it (default 3000 on failure).',
-    },
-    environment: {
-      type: 'string' as const,
-      description:
-        'Optional: Environment (dev, qa, stg, prod) for resolving the service.',
-    },
-    includeLogs: {
-      type: 'boolean' as const,
-      description:
-        'Optional: Open logs in a separate window for this service (default: true).',
-    },
-  },
-  required: ['serviceName', 'localPort'],
-};
+import {
+  boundAddress,
+  boundPort,
+  forwardPid,
+  getForwards,
+  restoreForwards,
+  selectForwards,
+  shutdownForwards,
+  startForward,
+  stopForwards,
+  waitForReady,
+  type ForwardSpec,
+  type ForwardSelector,
+} from './forwards.js';
+import { getConfig } from './config.js';
+import { startHttpTransport, type HttpTransport } from './http.js';
+import { kubectlTargetArgs, portForwardArgs } from './kubectl.js';
+import {
+  followLogs,
+  getLogFollower,
+  lineFilter,
+  mergePodLogs,
+  type LogsMode,
+} from './logs.js';
+import {
+  deleteProfile,
+  getProfile,
+  listProfiles,
+  saveProfile,
+  type ProfileEntry,
+  type ProfileScope,
+} from './profiles.js';
+import { describeAttempts, openLogViewer } from './viewers.js';
+import {
+  exportEntries,
+  renderExport,
+  templateError,
+  writeExport,
+} from './exports.js';
+import { evaluatePolicy, policyUsesContexts } from './policy.js';
+import {
+  DEFAULT_HTTP_SUMMARY_LIMIT,
+  DEFAULT_LOG_TAIL_LINES,
+  DEFAULT_READY_TIMEOUT_SECONDS,
+  listTools,
+  parseToolArgs,
+  serviceConfigsSchema,
+  formatIssues,
+  type ServiceConfig,
+} from './tools.js';
+import {
+  isPortFree,
+  findFreePort,
+  freeEphemeralPort,
+  formatAge,
+  parsePortRange,
+  shellQuote,
+} from './util.js';
+
+// Remote port used when no ports can be detected
+const DEFAULT_REMOTE_PORT = 3000;
+// With grep, filter this many recent lines before applying tail
+const GREP_LOG_SCAN_LINES = 5000;
 
-// Tool Definitions
-server.setRequestHandler(ListToolsRequestSchema, async () => {
+interface ResolvedService extends ForwardSpec {
+  includeLogs: boolean;
+  logsMode: LogsMode;
+  logsSelector?: string;
+  autoLocalPort: boolean;
+  /** Which ports were detected and which one was picked. */
+  portNote?: string;
+  /** What a service name that did not match exactly resolved to. */
+  nameNote?: string;
+  /** Container whose ports and logs are used. */
+  container?: string;
+  /** How the pod was chosen, when not by discovery. */
+  podNote?: string;
+}
+
+interface ToolResult {
+  text: string;
+  isError?: boolean;
+}
+
+function failure(prefix: string, err: unknown): ToolResult {
   return {
-    tools: [
-      {
-        name: 'start_k8s_port_forward',
-        description:
-          'Starts port forwarding for one or more Kubernetes services. Call list_k8s_services (and optionally list_k8s_namespaces) first to resolve exact service names and namespaces. All port-forwards run in a single session; logs open in separate OS windows when includeLogs is true.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            services: {
-              type: 'array',
-              description:
-                'Array of service configs; each can use different localPort, remotePort, namespace.',
-              items: serviceConfigSchema,
-            },
-          },
-          required: ['services'],
-        },
-      },
-      {
-        name: 'list_k8s_services',
-        description:
-          'Retrieves a list of all available Kubernetes services grouped by short name and environment. Use this to find exact service names and namespaces before calling start_k8s_port_forward.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            namespace: {
-              type: 'string',
-              description: 'Optional: Filter by namespace',
-            },
-          },
-        },
-      },
-      {
-        name: 'list_k8s_namespaces',
-        description: 'List all available Kubernetes namespaces.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
+    text: `${prefix}: ${err instanceof Error ? err.message : err}`,
+    isError: true,
+  };
+}
+
+/** The context/kubeconfig part of validated tool arguments. */
+function kubeTargetFrom(input: KubeTarget): KubeTarget {
+  return {
+    context: input.context || undefined,
+    kubeconfig: input.kubeconfig || undefined,
+  };
+}
+
+/**
+ * Resolve one (possibly inexact) service name for the single-service tools,
+ * or return the error result to send back.
+ */
+async function resolveOneService(
+  requestedName: string,
+  options: { namespace?: string; environment?: string },
+  kube: KubeTarget,
+  refresh?: boolean
+): Promise<
+  | {
+      service: NonNullable<ReturnType<typeof resolveService>>;
+      /** What an inexact name resolved to, as a line to put before the result. */
+      header: string;
+    }
+  | { error: ToolResult }
+> {
+  const discovery = await discoverPods(kube, { refresh });
+  const servicesMap = parseServicesMap(discovery.pods);
+  const nameMatch = matchServiceName(servicesMap, requestedName);
+  if (!('match' in nameMatch)) {
+    return {
+      error: {
+        text: `Could not resolve service "${requestedName}" (discovery cache ${describeDiscovery(discovery)}).${describeCandidates(nameMatch.candidates)} Call list_k8s_services to see available names, or retry with refresh: true if it was just deployed.`,
+        isError: true,
       },
-      {
-        name: 'stop_k8s_port_forward',
-        description: 'Stop all active Kubernetes port-forward processes.',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-        },
+    };
+  }
+  const environment = options.environment ?? nameMatch.match.environment;
+  const service = resolveService(servicesMap, nameMatch.match.shortName, {
+    namespace: options.namespace,
+    environment,
+  });
+  if (!service) {
+    return {
+      error: {
+        text: `Could not resolve service "${nameMatch.match.shortName}"${options.namespace ? ` in namespace ${options.namespace}` : ''}${environment ? ` in environment ${environment}` : ''}. Call list_k8s_services to see available names and environments.`,
+        isError: true,
       },
-    ],
-  };
-});
-
-interface ResolvedService {
-  namespace: string;
-  podName: string;
-  localPort: number;
-  remotePort: number;
-  label: string;
-  includeLogs: boolean;
-  environment: string;
+    };
+  }
+  const nameNote = describeServiceMatch(requestedName, nameMatch.match);
+  return { service, header: nameNote ? `${nameNote}\n` : '' };
 }
 
-// Global process tracker for stopping port-forwards
-const portForwardProcesses: ReturnType<typeof spawn>[] = [];
+/**
+ * Resolve and start a batch of validated service configs, wait for readiness
+ * and return the summary. Shared by start_k8s_port_forward and profiles.
+ */
+async function startPortForwards(
+  services: ServiceConfig[],
+  readyTimeoutSeconds = DEFAULT_READY_TIMEOUT_SECONDS,
+  refresh = false
+): Promise<ToolResult> {
+  // Resolve against all namespaces so any service can be found (e.g. in shared-services);
+  // one discovery per context/kubeconfig used in this request
+  const servicesMaps = new Map<string, Promise<ServicesMap>>();
+  const discoveryNotes: string[] = [];
+  const servicesMapFor = (kube: KubeTarget) => {
+    const key = `${kube.kubeconfig ?? ''}\n${kube.context ?? ''}`;
+    let map = servicesMaps.get(key);
+    if (!map) {
+      map = discoverPods(kube, { refresh }).then((discovery) => {
+        discoveryNotes.push(
+          `Discovery cache${kube.context ? ` (${kube.context})` : ''}: ${describeDiscovery(discovery)}`
+        );
+        return parseServicesMap(discovery.pods);
+      });
+      servicesMaps.set(key, map);
+    }
+    return map;
+  };
+
+  // Current context per kubeconfig, for policies with context rules
+  const currentContexts = new Map<string, Promise<string | undefined>>();
+  const contextNameFor = (kube: KubeTarget): Promise<string | undefined> => {
+    if (kube.context) return Promise.resolve(kube.context);
+    const key = kube.kubeconfig ?? '';
+    let name = currentContexts.get(key);
+    if (!name) {
+      name = getContexts(kube.kubeconfig).then(
+        ({ current }) => current ?? undefined,
+        () => undefined
+      );
+      currentContexts.set(key, name);
+    }
+    return name;
+  };
+
+  const resolved: ResolvedService[] = [];
+  const errors: string[] = [];
+  const policyViolations: Record<string, unknown>[] = [];
+  // Local ports taken by running forwards or earlier entries of this request
+  const claimedPorts = new Map<number, string>(
+    getForwards().map((f) => [f.spec.localPort, `port-forward ${f.spec.label}`])
+  );
+
+  for (let i = 0; i < services.length; i++) {
+    const s = services[i];
+    const { namespace, environment, remotePortName } = s;
+    const autoLocalPort = s.localPort === 'auto';
+    const requestedLocalPort = s.localPort === 'auto' ? null : s.localPort;
+    const remotePort = s.remotePort ?? null;
+    const target: ForwardTarget = s.target ?? 'pod';
+    const includeLogs = s.includeLogs !== false;
+    const logsMode: LogsMode = s.logsMode ?? 'single';
+    const logsSelector = s.logsSelector?.trim() || undefined;
+    const confirm = s.confirm === true;
+    const useProxy = s.proxy === true;
+    const { address } = s;
+    const container = s.container;
+    const kube = kubeTargetFrom(s);
+    const podSelection: PodSelection | undefined =
+      s.podName || s.labelSelector?.trim() || s.pick
+        ? {
+            podName: s.podName,
+            labelSelector: s.labelSelector?.trim() || undefined,
+            pick: s.pick,
+          }
+        : undefined;
+    if (podSelection && target !== 'pod') {
+      errors.push(
+        `Entry ${i + 1}: podName, labelSelector and pick only apply to target pod; ${target} forwards let the port-forward choose the pod`
+      );
+      continue;
+    }
+    if (s.podName && s.pick) {
+      errors.push(
+        `Entry ${i + 1}: podName and pick cannot be combined; pass one of them`
+      );
+      continue;
+    }
+
+    let servicesMap: ServicesMap;
+    try {
+      servicesMap = await servicesMapFor(kube);
+    } catch (err) {
+      errors.push(
+        `Entry ${i + 1}: failed to list pods${kube.context ? ` in context ${kube.context}` : ''}: ${err instanceof Error ? err.message : err}`
+      );
+      continue;
+    }
+    const nameMatch = matchServiceName(servicesMap, s.serviceName);
+    if (!('match' in nameMatch)) {
+      errors.push(
+        `Entry ${i + 1}: could not resolve service "${s.serviceName}".${describeCandidates(nameMatch.candidates)} Call list_k8s_services to see available names, or retry with refresh: true if it was just deployed.`
+      );
+      continue;
+    }
+    const serviceName = nameMatch.match.shortName;
+    // A full workload name such as "prod-b2b-ecommerce" also names the environment
+    const requestedEnvironment = environment ?? nameMatch.match.environment;
+    const resolvedOne = resolveService(servicesMap, serviceName, {
+      namespace,
+      environment: requestedEnvironment,
+    });
+    if (!resolvedOne) {
+      errors.push(
+        `Entry ${i + 1}: could not resolve service "${serviceName}"${namespace ? ` in namespace ${namespace}` : ''}${requestedEnvironment ? ` in environment ${requestedEnvironment}` : ''}. Call list_k8s_services to see available names and environments.`
+      );
+      continue;
+    }
+
+    const contextName = await contextNameFor(kube);
+    if (contextName == null && policyUsesContexts()) {
+      errors.push(
+        `Entry ${i + 1}: could not determine the current kube context for the safety policy; pass context explicitly`
+      );
+      continue;
+    }
+    const decision = evaluatePolicy({
+      serviceName,
+      workload: resolvedOne.serviceName,
+      environment: resolvedOne.environment,
+      namespace: resolvedOne.namespace,
+      context: contextName,
+    });
+    if (
+      decision.effect === 'deny' ||
+      (decision.effect === 'confirm' && !confirm)
+    ) {
+      // No environment or namespace given: resolveService picked one, which may be prod
+      const environmentDefaulted = !requestedEnvironment && !namespace;
+      policyViolations.push({
+        entry: i + 1,
+        serviceName,
+        environment: resolvedOne.environment,
+        environmentDefaulted,
+        namespace: resolvedOne.namespace,
+        context: contextName ?? null,
+        effect: decision.effect,
+        rule: decision.rule,
+        matched: decision.matched,
+        reason: decision.reason ?? null,
+      });
+      const target = `${serviceName} (env: ${resolvedOne.environment}${environmentDefaulted ? ', chosen because none was given' : ''}, ns: ${resolvedOne.namespace})`;
+      const because = `policy rule "${decision.rule}" (${decision.matched})${decision.reason ? `: ${decision.reason}` : ''}`;
+      errors.push(
+        decision.effect === 'deny'
+          ? `Entry ${i + 1}: ${target} is denied by ${because}`
+          : `Entry ${i + 1}: ${target} requires confirm: true by ${because}. Ask the user before retrying with confirm: true.`
+      );
+      continue;
+    }
+
+    let podName = resolvedOne.podName;
+    let podNote: string | undefined;
+    if (podSelection) {
+      try {
+        const pod = await selectPod(
+          resolvedOne.namespace,
+          resolvedOne.serviceName,
+          podSelection,
+          kube
+        );
+        podName = pod.metadata.name;
+      } catch (err) {
+        errors.push(
+          `Entry ${i + 1}: ${err instanceof Error ? err.message : err}. Call list_k8s_pods to see the candidates.`
+        );
+        continue;
+      }
+      podNote = podSelection.podName
+        ? `${podName} (requested)`
+        : `${podName} (${podSelection.pick ?? 'ready'} pick among pods of ${resolvedOne.serviceName}${podSelection.labelSelector ? ` matching ${podSelection.labelSelector}` : ''})`;
+    }
+    if (container) {
+      // Without access to the pod, the container is checked by the port-forward and logs
+      const pod = await getPod(resolvedOne.namespace, podName, kube).catch(
+        () => null
+      );
+      const names = (pod?.spec?.containers ?? []).map((c) => c.name);
+      if (pod && !names.includes(container)) {
+        errors.push(
+          `Entry ${i + 1}: pod ${podName} has no container "${container}" (containers: ${names.join(', ')})`
+        );
+        continue;
+      }
+    }
+
+    let remotePortFinal: number | string;
+    let portNote: string | undefined;
+    if (remotePort != null) {
+      remotePortFinal = remotePort;
+    } else {
+      const { source, ports } = await detectPorts(
+        resolvedOne.namespace,
+        resolvedOne.serviceName,
+        podName,
+        kube,
+        container
+      );
+      const available =
+        ports.length > 0
+          ? `${source} ports: ${ports.map(describePort).join(', ')}`
+          : 'no ports detected';
+      const picked = pickPort(ports, remotePortName);
+      if (picked) {
+        // svc/<name> forwards take the Service port; pods and deployments the container port
+        const port =
+          target === 'service'
+            ? (picked.servicePort ?? picked.containerPort)
+            : picked.containerPort;
+        if (port == null) {
+          errors.push(
+            `Entry ${i + 1}: port ${describePort(picked)} of ${resolvedOne.serviceName} targets a port name the pod does not declare; set remotePort (${available})`
+          );
+          continue;
+        }
+        remotePortFinal = port;
+        portNote = `${port} (picked ${describePort(picked)}; ${available})`;
+      } else if (remotePortName && ports.length > 0) {
+        errors.push(
+          `Entry ${i + 1}: no port named "${remotePortName}" on ${resolvedOne.serviceName} (${available})`
+        );
+        continue;
+      } else if (remotePortName) {
+        // Nothing to match against (e.g. no access to the Service); resolve the name when forwarding
+        remotePortFinal = remotePortName;
+        portNote = `${remotePortName} (resolved by the port-forward; ${available})`;
+      } else {
+        remotePortFinal = DEFAULT_REMOTE_PORT;
+        portNote = `${DEFAULT_REMOTE_PORT} (default; ${available})`;
+      }
+    }
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-  const result = (text: string) => ({
-    content: [{ type: 'text' as const, text }],
+    let localPort: number;
+    if (requestedLocalPort == null) {
+      // Validated by getConfig, so it always parses
+      const autoPortRange = parsePortRange(getConfig().portRange)!;
+      const free = await findFreePort(
+        autoPortRange,
+        new Set(claimedPorts.keys()),
+        address
+      );
+      if (free == null) {
+        errors.push(
+          `Entry ${i + 1}: no free local port in range ${autoPortRange.start}-${autoPortRange.end}`
+        );
+        continue;
+      }
+      localPort = free;
+    } else {
+      localPort = requestedLocalPort;
+      const owner = claimedPorts.get(localPort);
+      if (owner) {
+        errors.push(
+          `Entry ${i + 1}: localPort ${localPort} is already used by ${owner}`
+        );
+        continue;
+      }
+      if (!(await isPortFree(localPort, address))) {
+        errors.push(
+          `Entry ${i + 1}: localPort ${localPort} is already in use by another process. Choose another port or use "auto".`
+        );
+        continue;
+      }
+    }
+
+    // With a proxy, the port-forward binds an internal port behind localPort
+    let forwardPort: number | undefined;
+    if (useProxy) {
+      try {
+        forwardPort = await freeEphemeralPort();
+      } catch (err) {
+        errors.push(
+          `Entry ${i + 1}: no free internal port for the traffic proxy: ${err instanceof Error ? err.message : err}`
+        );
+        continue;
+      }
+    }
+
+    const contextLabel = kube.context ? `${kube.context}/` : '';
+    const envLabel =
+      resolvedOne.environment !== 'default'
+        ? `${resolvedOne.environment}~`
+        : '';
+    resolved.push({
+      serviceName,
+      namespace: resolvedOne.namespace,
+      podName,
+      target,
+      targetRef: forwardTargetRef(target, { ...resolvedOne, podName }),
+      localPort,
+      address,
+      remotePort: remotePortFinal,
+      forwardPort,
+      podSelection,
+      container,
+      podNote,
+      label: `${contextLabel}${envLabel}${serviceName}:${localPort}`,
+      workload: resolvedOne.serviceName,
+      includeLogs,
+      logsMode,
+      logsSelector,
+      environment: resolvedOne.environment,
+      autoLocalPort,
+      portNote,
+      nameNote: describeServiceMatch(s.serviceName, nameMatch.match),
+      ...kube,
+    });
+    claimedPorts.set(localPort, `entry ${i + 1} of this request`);
+  }
+
+  const discoveryBlock =
+    discoveryNotes.length > 0 ? `\n\n${discoveryNotes.join('\n')}` : '';
+
+  if (errors.length > 0) {
+    const violationsBlock =
+      policyViolations.length > 0
+        ? '\n\nPolicy violations:\n```json\n' +
+          JSON.stringify(policyViolations, null, 2) +
+          '\n```'
+        : '';
+    return {
+      text: `Validation/resolution errors:\n${errors.join('\n')}${violationsBlock}${discoveryBlock}`,
+      isError: true,
+    };
+  }
+
+  const commands: string[] = [];
+
+  // Open log viewers first so they are ready before port-forwards start
+  const viewers = resolved.map((r) => {
+    if (!r.includeLogs) return Promise.resolve(null);
+    const logsArgv = [
+      'kubectl',
+      ...kubectlTargetArgs(r),
+      'logs',
+      '--namespace',
+      r.namespace,
+      r.targetRef,
+      ...(r.container ? ['--container', r.container] : []),
+      '-f',
+    ];
+    commands.push(`# Logs: ${shellQuote(logsArgv)}`);
+    return openLogViewer({
+      argv: logsArgv,
+      title: r.label,
+      follower: followLogs(r),
+    });
+  });
+
+  // Spawn all port-forwards in this process (single "terminal"); each one is
+  // supervised and restarted with backoff if kubectl exits or loses the pod
+  const started = resolved.map((r) => {
+    if (r.forwardPort != null) {
+      commands.push(
+        `# Through a traffic proxy: localhost:${r.localPort} -> port-forward on localhost:${r.forwardPort}`
+      );
+    }
+    commands.push(
+      shellQuote([
+        'kubectl',
+        ...portForwardArgs({
+          ...r,
+          localPort: boundPort(r),
+          address: boundAddress(r),
+        }),
+      ])
+    );
+    return startForward(r);
   });
 
+  // Only report success once each tunnel is actually listening
+  const readiness = await Promise.all(
+    started.map((f) => waitForReady(f, readyTimeoutSeconds * 1000))
+  );
+  const viewerAttempts = await Promise.all(viewers);
+  await stopForwards(started.filter((_, i) => !readiness[i].ready));
+  const readyCount = readiness.filter((r) => r.ready).length;
+
+  const summary = resolved
+    .map((r, i) => {
+      const { ready, error } = readiness[i];
+      const attempts = viewerAttempts[i];
+      const line = `- ${r.label} -> http://localhost:${r.localPort}${r.autoLocalPort ? ' [auto-assigned]' : ''}${r.address ? ` on ${r.address}` : ''} (${r.target === 'pod' ? `pod ${r.podName}` : r.targetRef})`;
+      const logsLine = attempts
+        ? `\n    logs: ${describeAttempts(attempts)}`
+        : '';
+      const nameLine = r.nameNote ? `\n    service: ${r.nameNote}` : '';
+      const podLine = r.podNote ? `\n    pod: ${r.podNote}` : '';
+      const containerLine = r.container
+        ? `\n    container: ${r.container}`
+        : '';
+      const portLine = r.portNote ? `\n    remote port: ${r.portNote}` : '';
+      const proxyLine =
+        r.forwardPort != null
+          ? `\n    proxy: localhost:${r.localPort} -> port-forward on localhost:${r.forwardPort} (traffic stats: get_port_forward_stats)`
+          : '';
+      return ready
+        ? `${line}: ready${nameLine}${podLine}${containerLine}${portLine}${proxyLine}${logsLine}`
+        : `${line}: FAILED (stopped)${nameLine}${podLine}${containerLine}${portLine}\n    ${error}`;
+    })
+    .join('\n');
+  const commandsBlock =
+    'To run in a VS Code terminal instead, use:\n```\n' +
+    commands.join('\n') +
+    '\n```';
+
+  return {
+    text: `Port forwarding ready for ${readyCount} of ${resolved.length} service(s):\n${summary}\n\n${commandsBlock}${discoveryBlock}`,
+    isError: readyCount === 0,
+  };
+}
+
+/** Run one tool call with validated arguments. */
+async function callTool(name: string, args: unknown): Promise<ToolResult> {
   if (name === 'list_k8s_namespaces') {
+    const input = parseToolArgs(name, args);
     try {
-      const namespaces = await getNamespaces();
+      const namespaces = await getNamespaces(kubeTargetFrom(input));
       const text =
         namespaces.length > 0
           ? `Namespaces:\n${namespaces.map((n) => `- ${n}`).join('\n')}`
           : 'No namespaces found.';
-      return result(text);
+      return { text };
     } catch (err) {
-      return result(
-        `Failed to list namespaces: ${err instanceof Error ? err.message : err}`
+      return failure('Failed to list namespaces', err);
+    }
+  }
+
+  if (name === 'list_k8s_contexts') {
+    const input = parseToolArgs(name, args);
+    try {
+      const { contexts, current } = await getContexts(
+        kubeTargetFrom(input).kubeconfig
       );
+      const text =
+        contexts.length > 0
+          ? `Contexts:\n${contexts.map((c) => `- ${c}${c === current ? ' (current)' : ''}`).join('\n')}`
+          : 'No contexts found.';
+      return { text };
+    } catch (err) {
+      return failure('Failed to list contexts', err);
     }
   }
 
   if (name === 'list_k8s_services') {
+    const input = parseToolArgs(name, args);
+    const kube = kubeTargetFrom(input);
     try {
-      const namespace =
-        typeof args?.namespace === 'string' ? args.namespace : undefined;
-      const podsData = await getPods(namespace);
-      const servicesMap = parseServicesMap(podsData, namespace ?? null);
+      let pods: K8sPod[];
+      let cacheNote = '';
+      try {
+        const discovery = await discoverPods(kube, { refresh: input.refresh });
+        pods = input.namespace
+          ? discovery.pods.filter(
+              (p) => p.metadata.namespace === input.namespace
+            )
+          : discovery.pods;
+        cacheNote = `; discovery cache ${describeDiscovery(discovery)}`;
+      } catch (err) {
+        // Without access to all namespaces, list just the requested one
+        if (!input.namespace) throw err;
+        pods = await getPods(input.namespace, kube);
+      }
+      const servicesMap = parseServicesMap(pods);
       const lines: string[] = [
-        'Services (shortName -> environments and namespace):',
+        `Services (shortName -> environments and namespace${cacheNote}):`,
       ];
       for (const [shortName, envMap] of Array.from(servicesMap.entries()).sort(
         (a, b) => a[0].localeCompare(b[0])
@@ -173,219 +667,490 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           .join(', ');
         lines.push(`- ${shortName}: ${envList}`);
       }
-      return result(lines.length > 1 ? lines.join('\n') : 'No services found.');
+      return {
+        text: lines.length > 1 ? lines.join('\n') : 'No services found.',
+      };
     } catch (err) {
-      return result(
-        `Failed to list services: ${err instanceof Error ? err.message : err}`
+      return failure('Failed to list services', err);
+    }
+  }
+
+  if (name === 'list_k8s_pods') {
+    const input = parseToolArgs(name, args);
+    const kube = kubeTargetFrom(input);
+    const labelSelector = input.labelSelector?.trim() || undefined;
+    try {
+      const resolution = await resolveOneService(
+        input.serviceName,
+        input,
+        kube,
+        input.refresh
       );
+      if ('error' in resolution) return resolution.error;
+      const { service, header } = resolution;
+      const pods = await getServicePods(
+        service.namespace,
+        service.serviceName,
+        kube,
+        labelSelector
+      );
+      const of = `of ${service.serviceName}${labelSelector ? ` matching ${labelSelector}` : ''}`;
+      if (pods.length === 0) {
+        return {
+          text: `${header}No pods ${of} in namespace ${service.namespace}.`,
+        };
+      }
+      const now = Date.now();
+      const lines = pods.map((pod) => {
+        const { name: podName, creationTimestamp } = pod.metadata;
+        const age = creationTimestamp
+          ? formatAge(now - Date.parse(creationTimestamp))
+          : '?';
+        const containers = (pod.spec?.containers ?? [])
+          .map((c) => c.name)
+          .join(', ');
+        const isDefault =
+          !labelSelector && podName === service.podName ? ' (default)' : '';
+        return `- ${podName}${isDefault}: ${pod.metadata.deletionTimestamp ? 'Terminating' : (pod.status?.phase ?? 'Unknown')}${isPodReady(pod) ? ' (Ready)' : ''}, ${describePodStatus(pod)}, age ${age}, containers: ${containers || 'none'}`;
+      });
+      return {
+        text: `${header}Pods ${of} (env: ${service.environment}, ns: ${service.namespace}):\n${lines.join('\n')}`,
+      };
+    } catch (err) {
+      return failure('Failed to list pods', err);
     }
   }
 
   if (name === 'start_k8s_port_forward') {
-    const services = args?.services;
-    if (!Array.isArray(services) || services.length === 0) {
-      return result(
-        "Error: 'services' must be a non-empty array of objects with serviceName and localPort."
-      );
+    const input = parseToolArgs(name, args);
+    return startPortForwards(
+      input.services,
+      input.readyTimeoutSeconds,
+      input.refresh
+    );
+  }
+
+  if (name === 'list_k8s_port_forwards') {
+    parseToolArgs(name, args);
+    const forwards = getForwards();
+    if (forwards.length === 0) {
+      return { text: 'No active port-forwards.' };
     }
+    const blocks = forwards.map((f) => {
+      const { spec } = f;
+      const lines = [
+        `- ${spec.label} [${f.state}]`,
+        `  ${spec.context ? `context: ${spec.context}, ` : ''}namespace: ${spec.namespace}, ${spec.target === 'pod' ? `pod: ${spec.podName}` : `target: ${spec.targetRef}`}`,
+        `  ports: ${spec.address ?? 'localhost'}:${spec.localPort} -> ${spec.remotePort}${spec.forwardPort != null ? ` (through a traffic proxy; port-forward on localhost:${spec.forwardPort})` : ''}`,
+        `  pid: ${forwardPid(f) ?? (f.process ? 'in-process' : 'none')}${f.replacedPid != null ? ` (replaced pid ${f.replacedPid} of a previous server)` : ''}, started: ${f.startedAt.toISOString()}, restarts: ${f.restarts}`,
+      ];
+      if (f.output.length > 0) {
+        lines.push(
+          '  recent output:',
+          ...f.output.slice(-5).map((l) => `    ${l}`)
+        );
+      }
+      return lines.join('\n');
+    });
+    return {
+      text: `Active port-forwards (${forwards.length}):\n${blocks.join('\n')}`,
+    };
+  }
 
-    // Fetch all namespaces so we can resolve any service (e.g. in shared-services)
-    const podsData = await getPods(undefined);
-    const servicesMap = parseServicesMap(podsData, null);
+  if (name === 'stop_k8s_port_forward') {
+    const selector: ForwardSelector = parseToolArgs(name, args);
+    const targets = selectForwards(selector);
+    const stoppedLabels = targets.map((f) => f.spec.label);
+    const killedCount = await stopForwards(targets);
+    const remaining = getForwards().map((f) => f.spec.label);
 
-    const resolved: ResolvedService[] = [];
-    const errors: string[] = [];
+    const filtered = Object.values(selector).some((v) => v != null && v !== '');
+    const lines: string[] = [];
+    if (killedCount > 0) {
+      lines.push(`Stopped ${killedCount} port-forward process(es):`);
+      lines.push(...stoppedLabels.map((l) => `- ${l}`));
+    } else {
+      lines.push(
+        filtered
+          ? 'No active port-forwards matched the given selector.'
+          : 'No active port-forwards to stop.'
+      );
+    }
+    if (remaining.length > 0) {
+      lines.push(`Still running (${remaining.length}):`);
+      lines.push(...remaining.map((l) => `- ${l}`));
+    }
+    const message = lines.join('\n');
+    process.stderr.write(`${message}\n`);
+    return { text: message };
+  }
 
-    for (let i = 0; i < services.length; i++) {
-      const s = services[i];
-      if (!s || typeof s !== 'object') {
-        errors.push(`Entry ${i + 1}: invalid object`);
-        continue;
+  if (name === 'get_port_forward_stats') {
+    const { httpLimit = DEFAULT_HTTP_SUMMARY_LIMIT, ...selector } =
+      parseToolArgs(name, args);
+    const targets = selectForwards(selector);
+    if (targets.length === 0) {
+      return {
+        text:
+          getForwards().length > 0
+            ? 'No active port-forwards matched the given selector.'
+            : 'No active port-forwards.',
+      };
+    }
+    const blocks = targets.map((f) => {
+      const { spec, proxy } = f;
+      if (!proxy) {
+        return `- ${spec.label} [${f.state}]: no traffic proxy (start the forward with proxy: true to collect stats)`;
       }
-      // Normalise types: AI/clients may send numbers as strings
-      const serviceName =
-        typeof s.serviceName === 'string' ? s.serviceName.trim() : '';
-      const localPort =
-        typeof s.localPort === 'number' ? s.localPort : Number(s.localPort);
-      const remotePort =
-        s.remotePort != null
-          ? typeof s.remotePort === 'number'
-            ? s.remotePort
-            : Number(s.remotePort)
-          : null;
-      const namespace =
-        typeof s.namespace === 'string' ? s.namespace : undefined;
-      const environment =
-        typeof s.environment === 'string' ? s.environment : undefined;
-      const includeLogs = s.includeLogs !== false;
-
-      if (!serviceName) {
-        errors.push(`Entry ${i + 1}: serviceName is required`);
-        continue;
+      const { stats } = proxy;
+      const lines = [
+        `- ${spec.label} [${f.state}]: proxy localhost:${proxy.listenPort} -> port-forward on localhost:${proxy.targetPort}${proxy.error ? ` (${proxy.error})` : ''}`,
+        `  connections: ${stats.connections} (${stats.activeConnections} active)${stats.lastConnectionAt ? `, last at ${stats.lastConnectionAt.toISOString()}` : ''}`,
+        `  bytes: ${stats.bytesIn} in, ${stats.bytesOut} out`,
+        `  errors: ${stats.errors}${stats.lastError && stats.lastErrorAt ? ` (last at ${stats.lastErrorAt.toISOString()}: ${stats.lastError})` : ''}`,
+      ];
+      const exchanges = httpLimit > 0 ? proxy.http.slice(-httpLimit) : [];
+      if (exchanges.length > 0) {
+        lines.push(
+          `  HTTP requests (last ${exchanges.length} of ${stats.httpRequests}):`,
+          ...exchanges.map(
+            (e) =>
+              `    ${e.startedAt.toISOString()} ${e.method} ${e.path} -> ${e.status != null ? `${e.status} (${e.durationMs} ms)` : 'no response yet'}`
+          )
+        );
+      } else if (stats.httpRequests > 0) {
+        lines.push(`  HTTP requests: ${stats.httpRequests}`);
       }
-      if (!isValidPort(localPort)) {
-        errors.push(`Entry ${i + 1}: localPort must be 1-65535`);
-        continue;
+      return lines.join('\n');
+    });
+    return {
+      text: `Port-forward traffic (${targets.length}):\n${blocks.join('\n')}`,
+    };
+  }
+
+  if (name === 'export_port_forwards') {
+    const {
+      format = 'dotenv',
+      template,
+      path,
+      scheme,
+      host,
+      ...selector
+    } = parseToolArgs(name, args);
+    if (format === 'template') {
+      const problem = template
+        ? templateError(template)
+        : 'pass the text to render per forward';
+      if (problem) {
+        return {
+          text: `Format template needs a valid template: ${problem}`,
+          isError: true,
+        };
       }
-      if (remotePort != null && !isValidPort(remotePort)) {
-        errors.push(`Entry ${i + 1}: remotePort must be 1-65535`);
-        continue;
+    }
+    const targets = selectForwards(selector);
+    if (targets.length === 0) {
+      return {
+        text:
+          getForwards().length > 0
+            ? 'No active port-forwards matched the given selector.'
+            : 'No active port-forwards to export. Start some with start_k8s_port_forward first.',
+        isError: true,
+      };
+    }
+    const options = { scheme, host, template };
+    const entries = exportEntries(
+      targets.map((f) => f.spec),
+      options
+    );
+    const content = renderExport(entries, format, options);
+    const lines = [
+      `Exported ${entries.length} port-forward(s) as ${format}:`,
+      '```',
+      content.trimEnd(),
+      '```',
+    ];
+    if (path) {
+      try {
+        const written = await writeExport(path, content, format);
+        lines.push(
+          written.merged
+            ? `Updated ${written.path} (other lines kept).`
+            : `Wrote ${written.path}.`
+        );
+      } catch (err) {
+        return failure(`Failed to write ${path}`, err);
       }
+    }
+    return { text: lines.join('\n') };
+  }
+
+  if (name === 'get_k8s_logs') {
+    const input = parseToolArgs(name, args);
+    const { serviceName, namespace, environment, label, since, container } =
+      input;
+    const tail = input.tail ?? DEFAULT_LOG_TAIL_LINES;
+    const previous = input.previous === true;
+    const grep = input.grep || undefined;
+    const labelSelector = input.labelSelector?.trim() || undefined;
+    const allPods = input.allPods === true || labelSelector != null;
+    const kube = kubeTargetFrom(input);
+    const matches = lineFilter(grep);
+    const grepNote = grep ? `, matching /${grep}/i` : '';
 
-      const resolvedOne = resolveService(servicesMap, serviceName, {
+    // Prefer the in-process buffer of a running forward started with includeLogs
+    if (!since && !container && !previous && !labelSelector) {
+      const forward = selectForwards({
+        serviceName,
+        label,
         namespace,
         environment,
-      });
-      if (!resolvedOne) {
-        errors.push(
-          `Entry ${i + 1}: could not resolve service "${serviceName}"${namespace ? ` in namespace ${namespace}` : ''}. Call list_k8s_services to see available names.`
+      }).find((f) => {
+        const follower = getLogFollower(f.spec.label);
+        return (
+          follower != null &&
+          (!allPods || follower.source.logsMode === 'all-pods') &&
+          (!kube.context || f.spec.context === kube.context)
         );
-        continue;
+      });
+      const follower = forward && getLogFollower(forward.spec.label);
+      if (follower) {
+        const lines = follower.lines.filter(matches).slice(-tail);
+        return {
+          text: `Logs for ${follower.source.label} (in-process buffer, last ${lines.length} line(s)${grepNote}):\n${lines.join('\n')}`,
+        };
       }
+    }
 
-      let remotePortFinal: number;
-      if (remotePort != null) {
-        remotePortFinal = remotePort;
-      } else {
-        // Detect service port from cluster when not provided
-        const detected = await getServicePort(
+    try {
+      const resolution = await resolveOneService(
+        serviceName,
+        { namespace, environment },
+        kube,
+        input.refresh
+      );
+      if ('error' in resolution) return resolution.error;
+      const { service: resolvedOne, header } = resolution;
+      const logOptions = {
+        tail: grep ? GREP_LOG_SCAN_LINES : tail,
+        since,
+        container,
+        previous,
+      };
+      if (allPods) {
+        const podNames = await getServicePodNames(
           resolvedOne.namespace,
-          resolvedOne.serviceName
+          resolvedOne.serviceName,
+          kube,
+          labelSelector
         );
-        remotePortFinal = parseInt(detected, 10) || 3000;
+        const outputs = await Promise.all(
+          podNames.map(async (pod) => ({
+            pod,
+            output: await getLogs(
+              resolvedOne.namespace,
+              pod,
+              { ...logOptions, timestamps: true },
+              kube
+            ),
+          }))
+        );
+        const lines = mergePodLogs(outputs).filter(matches).slice(-tail);
+        return {
+          text: `${header}Logs for ${podNames.length} pod(s) of ${resolvedOne.serviceName}${labelSelector ? ` matching ${labelSelector}` : ''} (last ${lines.length} line(s)${grepNote}):\n${lines.join('\n')}`,
+        };
       }
-
-      const envLabel =
-        resolvedOne.environment !== 'default'
-          ? `${resolvedOne.environment}~`
-          : '';
-      resolved.push({
-        namespace: resolvedOne.namespace,
-        podName: resolvedOne.podName,
-        localPort,
-        remotePort: remotePortFinal,
-        label: `${envLabel}${serviceName}:${localPort}`,
-        includeLogs,
-        environment: resolvedOne.environment,
-      });
+      const out = await getLogs(
+        resolvedOne.namespace,
+        resolvedOne.podName,
+        logOptions,
+        kube
+      );
+      const lines = out
+        .split('\n')
+        .filter(Boolean)
+        .filter(matches)
+        .slice(-tail);
+      return {
+        text: `${header}Logs for pod ${resolvedOne.podName} (last ${lines.length} line(s)${grepNote}):\n${lines.join('\n')}`,
+      };
+    } catch (err) {
+      return failure('Failed to get logs', err);
     }
+  }
 
-    if (errors.length > 0) {
-      return result(`Validation/resolution errors:\n${errors.join('\n')}`);
+  if (name === 'save_port_forward_profile') {
+    const input = parseToolArgs(name, args);
+    const scope: ProfileScope = input.scope ?? 'user';
+    try {
+      const path = await saveProfile(
+        input.name,
+        { description: input.description, services: input.services },
+        scope
+      );
+      return {
+        text: `Saved profile "${input.name}" (${input.services.length} service(s)) to ${path}.`,
+      };
+    } catch (err) {
+      return failure('Failed to save profile', err);
     }
+  }
 
-    const shutdown = () => {
-      for (const p of portForwardProcesses) {
-        try {
-          p.kill();
-        } catch {
-          // ignore
-        }
-      }
+  if (name === 'start_port_forward_profile') {
+    const input = parseToolArgs(name, args);
+    let entry: ProfileEntry | null;
+    try {
+      entry = await getProfile(input.name, input.scope);
+    } catch (err) {
+      return failure('Failed to start profile', err);
+    }
+    if (!entry) {
+      return {
+        text: `Profile "${input.name}" not found. Call list_port_forward_profiles to see saved names.`,
+        isError: true,
+      };
+    }
+    // Profiles are files that may have been edited by hand; validate like tool arguments
+    const services = serviceConfigsSchema.safeParse(entry.profile?.services);
+    if (!services.success) {
+      return {
+        text: `Profile "${entry.name}" (${entry.scope}) is invalid (${entry.path}):\n${formatIssues(services.error.issues)}`,
+        isError: true,
+      };
+    }
+    const started = await startPortForwards(
+      services.data,
+      input.readyTimeoutSeconds,
+      input.refresh
+    );
+    return {
+      ...started,
+      text: `Profile "${entry.name}" (${entry.scope}):\n${started.text}`,
     };
-    process.on('SIGINT', shutdown);
-    process.on('SIGTERM', shutdown);
-
-    const commands: string[] = [];
+  }
 
-    // Open log windows first so they are ready before port-forwards start
-    for (const r of resolved) {
-      if (r.includeLogs) {
-        const logsCommand = `kubectl logs --namespace ${r.namespace} ${r.podName} -f`;
-        commands.push(`# Logs: ${logsCommand}`);
-        openLogsInTerminal(logsCommand, r.label);
+  if (name === 'list_port_forward_profiles') {
+    parseToolArgs(name, args);
+    try {
+      const entries = await listProfiles();
+      if (entries.length === 0) {
+        return { text: 'No saved profiles.' };
       }
-    }
-
-    // Spawn all port-forwards in this process (single "terminal"); prefix output for clarity
-    for (const r of resolved) {
-      const portForwardArgs = [
-        'port-forward',
-        '--namespace',
-        r.namespace,
-        r.podName,
-        `${r.localPort}:${r.remotePort}`,
-      ];
-      const portForwardCommand = `kubectl ${portForwardArgs.join(' ')}`;
-      commands.push(portForwardCommand);
-
-      const p = spawn('kubectl', portForwardArgs, {
-        stdio: ['ignore', 'pipe', 'pipe'],
-      });
-      portForwardProcesses.push(p);
-
-      const prefix = `[${r.label}]`;
-      // MCP uses stdout for protocol; write kubectl output to stderr so it doesn't break the stream
-      p.stdout?.on('data', (data: Buffer) => {
-        process.stderr.write(`${prefix} ${data.toString()}`);
-      });
-      p.stderr?.on('data', (data: Buffer) => {
-        process.stderr.write(`${prefix} ${data.toString()}`);
-      });
-      p.on('close', (code) => {
-        process.stderr.write(
-          `${prefix} port-forward exited with code ${code}\n`
+      const lines = ['Profiles:'];
+      for (const { name: profileName, scope, path, profile } of entries) {
+        lines.push(
+          `- ${profileName} (${scope})${profile?.description ? `: ${profile.description}` : ''}`
         );
-      });
+        // A hand-edited profile may be malformed; flag it instead of failing the whole list
+        const services = serviceConfigsSchema.safeParse(profile?.services);
+        if (!services.success) {
+          lines.push(
+            `  invalid (${path}), start_port_forward_profile refuses it:\n${formatIssues(services.error.issues).replace(/^/gm, '    ')}`
+          );
+          continue;
+        }
+        for (const s of services.data) {
+          lines.push(
+            `  - ${s.serviceName}${s.environment ? ` [${s.environment}]` : ''}${s.namespace ? ` (ns: ${s.namespace})` : ''} -> localhost:${s.localPort}`
+          );
+        }
+      }
+      return { text: lines.join('\n') };
+    } catch (err) {
+      return failure('Failed to list profiles', err);
     }
+  }
 
-    const summary = resolved
-      .map(
-        (r) =>
-          `- ${r.label} -> http://localhost:${r.localPort} (pod ${r.podName})`
-      )
-      .join('\n');
-    const commandsBlock =
-      'To run in a VS Code terminal instead, use:\n```\n' +
-      commands.join('\n') +
-      '\n```';
-
-    return result(
-      `Port forwarding started for ${resolved.length} service(s):\n${summary}\n\n${commandsBlock}`
-    );
+  if (name === 'delete_port_forward_profile') {
+    const input = parseToolArgs(name, args);
+    try {
+      const deletedFrom = await deleteProfile(input.name, input.scope);
+      return deletedFrom
+        ? { text: `Deleted profile "${input.name}" (${deletedFrom}).` }
+        : { text: `Profile "${input.name}" not found.`, isError: true };
+    } catch (err) {
+      return failure('Failed to delete profile', err);
+    }
   }
 
-  if (name === 'stop_k8s_port_forward') {
-    const killedCount = portForwardProcesses.length;
+  return { text: `Unknown tool: ${name}`, isError: true };
+}
 
-    // Send SIGINT (graceful shutdown) to all processes
-    for (const p of portForwardProcesses) {
-      try {
-        p.kill('SIGINT');
-      } catch {
-        // ignore
-      }
+/** An MCP server answering tool calls; one per client session. */
+function createMcpServer(): Server {
+  const server = new Server(
+    {
+      name: 'k8s-port-forward-mcp',
+      version: '1.0.3',
+    },
+    {
+      capabilities: {
+        tools: {},
+      },
     }
+  );
 
-    // Give processes 500ms to shut down gracefully
-    await new Promise((resolve) => setTimeout(resolve, 500));
+  // Tool Definitions
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: listTools() };
+  });
 
-    // Force-kill any remaining processes with SIGKILL
-    for (const p of portForwardProcesses) {
-      try {
-        p.kill('SIGKILL');
-      } catch {
-        // ignore
-      }
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+    let result: ToolResult;
+    try {
+      result = await callTool(name, args);
+    } catch (err) {
+      // Invalid arguments and anything a tool did not handle itself
+      result = failure(`Error in ${name}`, err);
     }
+    return {
+      content: [{ type: 'text' as const, text: result.text }],
+      isError: result.isError ?? false,
+    };
+  });
+  return server;
+}
 
-    // Clear the list
-    portForwardProcesses.length = 0;
-
-    const message =
-      killedCount > 0
-        ? `Stopped ${killedCount} port-forward process(es).`
-        : 'No active port-forwards to stop.';
-    process.stderr.write(`${message}\n`);
-    return result(message);
+async function main() {
+  // Forwards left behind by a previous server instance (e.g. after a client restart)
+  const { adopted, cleanedUp } = await restoreForwards();
+  if (adopted.length > 0) {
+    console.error(
+      `Restarted ${adopted.length} port-forward(s) from a previous server: ${adopted.join(', ')}`
+    );
+  }
+  if (cleanedUp.length > 0) {
+    console.error(
+      `Stopped ${cleanedUp.length} orphaned port-forward(s): ${cleanedUp.join(', ')}`
+    );
+  }
+  const { transport } = getConfig();
+  let http: HttpTransport | undefined;
+  // Stop forwards, proxies, log streams and discovery watches (which keep the
+  // event loop busy) and exit
+  const exit = (code: number) => {
+    shutdownForwards();
+    stopDiscoveryWatches();
+    void http?.close();
+    process.exit(code);
+  };
+  for (const sig of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(sig, () => exit(128 + osConstants.signals[sig]));
   }
 
-  return result(`Unknown tool: ${name}`);
-});
-
-async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
+  if (transport.mode === 'http') {
+    http = await startHttpTransport(createMcpServer, transport);
+    console.error(
+      `Kubernetes Port Forward — MCP Server: listening on ${http.url} (token: ${http.tokenSource})`
+    );
+    return;
+  }
+  const server = createMcpServer();
+  // The client ends a stdio session by closing stdin
+  process.stdin.once('end', () => exit(0));
+  server.onclose = () => exit(0);
+  await server.connect(new StdioServerTransport());
   console.error('Kubernetes Port Forward — MCP Server: running on stdio');
 }
 
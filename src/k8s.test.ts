@@ -0,0 +1,172 @@
+import assert from 'node:assert/strict';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import {
+  matchServiceName,
+  resolveService,
+  selectPod,
+  type K8sPod,
+  type ServiceNameResolution,
+  type ServicesMap,
+} from './k8s.js';
+import {
+  fakePod,
+  startFakeApiServer,
+  type FakeApiServer,
+} from './testing/fakeapi.js';
+
+let fake: FakeApiServer;
+
+before(async () => {
+  fake = await startFakeApiServer();
+  // Read by getConfig on first use
+  process.env.K8S_PORT_FORWARD_CONFIG = join(tmpdir(), 'no-such-config.json');
+  process.env.K8S_PORT_FORWARD_BACKEND = 'api';
+});
+
+after(async () => {
+  await fake.close();
+});
+
+/** Services of one "dev" environment, each with the workload name dev-<name>. */
+function services(...names: string[]): ServicesMap {
+  return new Map(
+    names.map((name) => [
+      name,
+      {
+        dev: {
+          id: `dev-${name}`,
+          namespace: 'default',
+          serviceName: `dev-${name}`,
+          podName: `dev-${name}-abc12`,
+        },
+      },
+    ])
+  );
+}
+
+function resolved(resolution: ServiceNameResolution): string | undefined {
+  return 'match' in resolution ? resolution.match.shortName : undefined;
+}
+
+function suggested(resolution: ServiceNameResolution): string[] {
+  return 'candidates' in resolution
+    ? resolution.candidates.map((c) => c.shortName)
+    : [];
+}
+
+describe('matchServiceName', () => {
+  const map = services('payments', 'web', 'worker', 'b2b-ecommerce');
+
+  it('resolves exact short names ignoring case', () => {
+    const resolution = matchServiceName(map, 'Web');
+    assert.deepEqual(resolution, {
+      match: { shortName: 'web', kind: 'exact', matchedName: 'web' },
+    });
+  });
+
+  it('resolves workload names with their environment', () => {
+    const resolution = matchServiceName(map, 'dev-payments');
+    assert.deepEqual(resolution, {
+      match: {
+        shortName: 'payments',
+        kind: 'workload',
+        matchedName: 'dev-payments',
+        environment: 'dev',
+      },
+    });
+  });
+
+  it('resolves a prefix or substring of one service', () => {
+    assert.equal(resolved(matchServiceName(map, 'pay')), 'payments');
+    assert.equal(resolved(matchServiceName(map, 'ecommerce')), 'b2b-ecommerce');
+  });
+
+  it('resolves small typos, including swapped letters', () => {
+    assert.equal(resolved(matchServiceName(map, 'paymnets')), 'payments');
+    assert.equal(resolved(matchServiceName(map, 'wbe')), 'web');
+    assert.equal(
+      resolved(matchServiceName(map, 'b2b-ecomerce')),
+      'b2b-ecommerce'
+    );
+  });
+
+  it('only suggests a service whose name is part of the request', () => {
+    const resolution = matchServiceName(map, 'payments-worker');
+    assert.equal(resolved(resolution), undefined);
+    assert.deepEqual(suggested(resolution).slice(0, 2), ['payments', 'worker']);
+  });
+
+  it('lists candidates when several services match', () => {
+    const resolution = matchServiceName(map, 'w');
+    assert.deepEqual(suggested(resolution).slice(0, 2), ['web', 'worker']);
+  });
+
+  it('suggests the closest names when nothing matches', () => {
+    const resolution = matchServiceName(map, 'wobble');
+    assert.equal(resolved(resolution), undefined);
+    assert.equal(suggested(resolution).length, 4);
+  });
+});
+
+describe('resolveService', () => {
+  const map = services('web');
+
+  it('resolves the given environment', () => {
+    assert.deepEqual(resolveService(map, 'web', { environment: 'dev' }), {
+      namespace: 'default',
+      podName: 'dev-web-abc12',
+      serviceName: 'dev-web',
+      environment: 'dev',
+    });
+  });
+
+  it('does not resolve inherited object keys as environments', () => {
+    for (const environment of ['constructor', 'toString', '__proto__']) {
+      assert.equal(resolveService(map, 'web', { environment }), null);
+    }
+  });
+});
+
+describe('selectPod', () => {
+  /** A pod of the given workload, created the given number of minutes ago. */
+  function workloadPod(workload: string, minutesAgo: number): K8sPod {
+    const pod = fakePod(`${workload}-5d8f9-${minutesAgo}x`, {
+      'app.kubernetes.io/name': 'web',
+    });
+    pod.metadata.creationTimestamp = new Date(
+      Date.now() - minutesAgo * 60_000
+    ).toISOString();
+    return pod;
+  }
+
+  it('only picks pods of the resolved workload when a selector is given', async () => {
+    // dev and prod share the namespace and the app label; prod is newer
+    fake.pods = [workloadPod('dev-web', 10), workloadPod('prod-web', 1)];
+    const pod = await selectPod(
+      'default',
+      'dev-web',
+      { labelSelector: 'app.kubernetes.io/name=web', pick: 'newest' },
+      { kubeconfig: fake.kubeconfig }
+    );
+    assert.equal(pod.metadata.name, 'dev-web-5d8f9-10x');
+  });
+
+  it('refuses a named pod of another workload that matches the selector', async () => {
+    fake.pods = [workloadPod('dev-web', 10), workloadPod('prod-web', 1)];
+    await assert.rejects(
+      selectPod(
+        'default',
+        'dev-web',
+        {
+          podName: 'prod-web-5d8f9-1x',
+          labelSelector: 'app.kubernetes.io/name=web',
+        },
+        { kubeconfig: fake.kubeconfig }
+      ),
+      /is not a Running pod of dev-web matching app\.kubernetes\.io\/name=web/
+    );
+  });
+});
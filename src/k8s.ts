@@ -1,127 +1,853 @@
-import { exec } from 'node:child_process';
+import { getBackend, type BackendProcess, type K8sBackend } from './backend.js';
+import { getConfig, type NamingConfig } from './config.js';
 
-/** Run a shell command and return stdout; reject on exit code or stderr. */
-export function execPromise(cmd: string): Promise<string> {
-  return new Promise((resolve, reject) => {
-    exec(cmd, (error, stdout, stderr) => {
-      if (error) {
-        reject(error);
-      } else if (stderr && stderr.trim()) {
-        reject(new Error(stderr));
-      } else {
-        resolve(stdout ?? '');
-      }
-    });
-  });
+// Objects and lists as returned by the API server (only the fields we use)
+export interface K8sObjectMeta {
+  name: string;
+  namespace?: string;
+  labels?: Record<string, string>;
+  ownerReferences?: { kind: string; name: string }[];
+  creationTimestamp?: string;
+  deletionTimestamp?: string;
+  resourceVersion?: string;
+}
+
+export interface K8sContainerPort {
+  name?: string;
+  containerPort: number;
+  protocol?: string;
+}
+
+export interface K8sPod {
+  metadata: K8sObjectMeta;
+  spec?: {
+    containers?: { name: string; ports?: K8sContainerPort[] }[];
+  };
+  status?: {
+    phase?: string;
+    conditions?: { type: string; status: string }[];
+    containerStatuses?: {
+      name: string;
+      ready: boolean;
+      restartCount: number;
+    }[];
+  };
+}
+
+export interface K8sServicePort {
+  name?: string;
+  port: number;
+  targetPort?: number | string;
+  protocol?: string;
 }
 
-const ENV_PREFIXES = ['dev', 'qa', 'stg', 'prod'] as const;
+export interface K8sService {
+  metadata: K8sObjectMeta;
+  spec?: { ports?: K8sServicePort[]; selector?: Record<string, string> };
+}
+
+export interface K8sList<T> {
+  metadata?: { resourceVersion?: string };
+  items: T[];
+}
 
 export interface ServiceDetails {
   id: string;
   namespace: string;
   serviceName: string;
+  podName: string;
 }
 
 export type ServicesMap = Map<string, Record<string, ServiceDetails>>;
 
 /**
- * Parse `kubectl get pods` output into a map: shortName -> { env -> details }.
- * Pod names are assumed to be like "dev-b2b-ecommerce-xx-yy": last two segments
- * are the id, the rest is the full service name; we derive env (dev/qa/stg/prod)
- * from prefix and short name by stripping env and optional namespace prefix.
+ * Name of the workload that owns a pod. ReplicaSet owners are mapped back to
+ * their Deployment by stripping the pod-template-hash; pods without owners fall
+ * back to dropping the last two "-" segments of the pod name.
+ */
+export function workloadName(pod: K8sPod): string | null {
+  const { name, labels, ownerReferences } = pod.metadata;
+  const owner = ownerReferences?.[0];
+  if (owner) {
+    const hash = labels?.['pod-template-hash'];
+    if (
+      owner.kind === 'ReplicaSet' &&
+      hash &&
+      owner.name.endsWith(`-${hash}`)
+    ) {
+      return owner.name.slice(0, -(hash.length + 1));
+    }
+    return owner.name;
+  }
+  const parts = name.split('-');
+  return parts.length > 2 ? parts.slice(0, -2).join('-') : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Environment of a pod according to the configured naming convention. */
+function detectEnvironment(
+  pod: K8sPod,
+  serviceName: string,
+  naming: NamingConfig
+): string | undefined {
+  const { environments } = naming;
+  switch (naming.environmentSource) {
+    case 'suffix':
+      return environments.find((env) => serviceName.endsWith(`-${env}`));
+    case 'namespace': {
+      const namespace = pod.metadata.namespace ?? '';
+      const pattern = naming.namespacePattern
+        ? new RegExp(naming.namespacePattern)
+        : new RegExp(
+            `(?:^|-)(${environments.map(escapeRegExp).join('|')})(?:-|$)`
+          );
+      return pattern.exec(namespace)?.[1];
+    }
+    case 'label':
+      return pod.metadata.labels?.[naming.environmentLabel];
+    default:
+      return environments.find((env) => serviceName.startsWith(`${env}-`));
+  }
+}
+
+/** Short display name: label or workload name without env and namespace affixes. */
+function shortNameFor(
+  pod: K8sPod,
+  serviceName: string,
+  naming: NamingConfig
+): string {
+  const namespace = pod.metadata.namespace ?? '';
+  const base =
+    (naming.shortNameLabel && pod.metadata.labels?.[naming.shortNameLabel]) ||
+    serviceName;
+  const envAlternation = naming.environments.map(escapeRegExp).join('|');
+  let shortName = base;
+  if (envAlternation) {
+    // Strip "dev-", "-dev", etc. whichever side the convention puts them on
+    shortName =
+      naming.environmentSource === 'suffix'
+        ? shortName.replace(new RegExp(`-(${envAlternation})$`), '')
+        : shortName.replace(new RegExp(`^(${envAlternation})-`), '');
+  }
+  if (
+    naming.stripNamespacePrefix &&
+    namespace &&
+    shortName.startsWith(`${namespace}-`)
+  ) {
+    shortName = shortName.slice(namespace.length + 1);
+  }
+  return shortName;
+}
+
+/**
+ * Names a service can go by, from the preferred short name to one that is
+ * unique per workload: the short name, the short name ignoring the label, the
+ * workload name and "<workload>.<namespace>".
+ */
+function nameChoices(
+  pod: K8sPod,
+  serviceName: string,
+  naming: NamingConfig
+): string[] {
+  return [
+    shortNameFor(pod, serviceName, naming),
+    shortNameFor(pod, serviceName, { ...naming, shortNameLabel: '' }),
+    serviceName,
+    `${serviceName}.${pod.metadata.namespace ?? ''}`,
+  ];
+}
+
+/**
+ * Group Running pods into a map: shortName -> { env -> details }.
+ * The full service name is the owning workload (e.g. Deployment "dev-b2b-ecommerce").
+ * Env and short name follow the naming config (by default: env from a
+ * dev/qa/stg/prod prefix, short name from the `app.kubernetes.io/name` label or
+ * the workload name with env and namespace prefix stripped). When several
+ * workloads would share a short name in one environment (e.g. a Helm chart's
+ * primary and replicas share the label), all of them fall back to the next
+ * name in nameChoices, so none silently replaces another.
  */
 export function parseServicesMap(
-  podsData: string,
-  namespace: string | null
+  pods: K8sPod[],
+  naming: NamingConfig = getConfig().naming
 ): ServicesMap {
   const servicesMap = new Map<string, Record<string, ServiceDetails>>();
-  const lines = podsData.trim().split('\n');
-  if (lines.length === 0) return servicesMap;
+  const entries: {
+    pod: K8sPod;
+    serviceName: string;
+    environment: string;
+    names: string[];
+    level: number;
+  }[] = [];
 
-  const headers = lines[0].split(/\s+/);
-  const namespaceIndex = headers.indexOf('NAMESPACE');
-  const nameIndex = headers.indexOf('NAME');
-  const statusIndex = headers.indexOf('STATUS');
-
-  for (let i = 1; i < lines.length; i++) {
-    const columns = lines[i].split(/\s+/);
+  for (const pod of pods) {
+    if (!isPodRunning(pod)) continue;
+    const serviceName = workloadName(pod);
+    if (!serviceName) continue;
+    entries.push({
+      pod,
+      serviceName,
+      environment: detectEnvironment(pod, serviceName, naming) ?? 'default',
+      names: nameChoices(pod, serviceName, naming),
+      level: 0,
+    });
+  }
 
-    const statusColumn = statusIndex !== -1 ? columns[statusIndex] : undefined;
-    if (statusColumn !== undefined && statusColumn !== 'Running') {
-      continue;
+  // Move every entry of a shared name to its next choice until names are unique
+  for (let changed = true; changed; ) {
+    changed = false;
+    const owners = new Map<string, Set<string>>();
+    for (const e of entries) {
+      const key = `${e.names[e.level]}\n${e.environment}`;
+      if (!owners.has(key)) owners.set(key, new Set());
+      owners.get(key)!.add(`${e.pod.metadata.namespace}/${e.serviceName}`);
     }
-
-    const namespaceColumn = namespace ?? columns[namespaceIndex];
-    const nameColumn = columns[nameIndex];
-
-    const envPrefix =
-      ENV_PREFIXES.find((env) => nameColumn.startsWith(`${env}-`)) ?? 'default';
-
-    const parts = nameColumn.split('-');
-    if (parts.length > 2) {
-      const serviceName = parts.slice(0, -2).join('-');
-      const serviceId = parts.slice(-2).join('-');
-
-      // Short name for display: strip "dev-", "qa-", etc. and optional "namespace-"
-      const envPrefixStripRegex = new RegExp(`^(${ENV_PREFIXES.join('|')})-`);
-      let shortServiceName = serviceName.replace(envPrefixStripRegex, '');
-      if (namespaceColumn) {
-        shortServiceName = shortServiceName.replace(
-          new RegExp(`^${namespaceColumn}-`, 'g'),
-          ''
-        );
+    const shared = new Set(
+      [...owners]
+        .filter(([, workloads]) => workloads.size > 1)
+        .map(([key]) => key.split('\n')[0])
+    );
+    for (const e of entries) {
+      if (shared.has(e.names[e.level]) && e.level < e.names.length - 1) {
+        e.level++;
+        changed = true;
       }
+    }
+  }
 
-      if (!servicesMap.has(shortServiceName)) {
-        servicesMap.set(shortServiceName, {});
-      }
-      const envMap = servicesMap.get(shortServiceName)!;
-      envMap[envPrefix] = {
-        id: serviceId,
-        namespace: namespaceColumn,
-        serviceName,
-      };
+  for (const { pod, serviceName, environment, names, level } of entries) {
+    const podName = pod.metadata.name;
+    const namespace = pod.metadata.namespace ?? '';
+    const serviceId = podName.startsWith(`${serviceName}-`)
+      ? podName.slice(serviceName.length + 1)
+      : podName;
+    const shortServiceName = names[level];
+
+    if (!servicesMap.has(shortServiceName)) {
+      servicesMap.set(shortServiceName, {});
     }
+    const envMap = servicesMap.get(shortServiceName)!;
+    envMap[environment] = {
+      id: serviceId,
+      namespace,
+      serviceName,
+      podName,
+    };
   }
   return servicesMap;
 }
 
-export async function getNamespaces(): Promise<string[]> {
-  const cmd = 'kubectl get namespaces -o jsonpath={.items[*].metadata.name}';
-  const out = await execPromise(cmd);
-  return out.trim() ? out.trim().split(/\s+/) : [];
+/** Which cluster to talk to; omitted fields fall back to the kubeconfig defaults. */
+export interface KubeTarget {
+  context?: string;
+  kubeconfig?: string;
+}
+
+export function getContexts(
+  kubeconfig?: string
+): Promise<{ contexts: string[]; current: string | null }> {
+  return getBackend().getContexts(kubeconfig);
+}
+
+export function getNamespaces(kube?: KubeTarget): Promise<string[]> {
+  return getBackend().getNamespaces(kube);
+}
+
+export function getPods(
+  namespace: string | undefined,
+  kube?: KubeTarget,
+  labelSelector?: string
+): Promise<K8sPod[]> {
+  return getBackend().getPods(namespace, kube, labelSelector);
+}
+
+export function isPodRunning(pod: K8sPod): boolean {
+  return pod.status?.phase === 'Running' && !pod.metadata.deletionTimestamp;
+}
+
+/** Running and passing its readiness checks. */
+export function isPodReady(pod: K8sPod): boolean {
+  return (
+    isPodRunning(pod) &&
+    (pod.status?.conditions ?? []).some(
+      (c) => c.type === 'Ready' && c.status === 'True'
+    )
+  );
+}
+
+/**
+ * Pods of a service in any phase: those owned by the workload, narrowed to
+ * the ones matching the label selector when given. The selector never reaches
+ * pods of other workloads, which the safety policy was not checked against.
+ */
+export async function getServicePods(
+  namespace: string,
+  workload: string,
+  kube?: KubeTarget,
+  labelSelector?: string
+): Promise<K8sPod[]> {
+  const pods = await getPods(namespace, kube, labelSelector);
+  return pods.filter((pod) => workloadName(pod) === workload);
+}
+
+/** Names of the Running pods of a service (see getServicePods). */
+export async function getServicePodNames(
+  namespace: string,
+  workload: string,
+  kube?: KubeTarget,
+  labelSelector?: string
+): Promise<string[]> {
+  const pods = await getServicePods(namespace, workload, kube, labelSelector);
+  return pods.filter(isPodRunning).map((pod) => pod.metadata.name);
+}
+
+export const POD_PICKS = ['newest', 'oldest', 'ready', 'random'] as const;
+
+export type PodPick = (typeof POD_PICKS)[number];
+
+/** How to choose the pod of a pod-pinned forward instead of the discovery default. */
+export interface PodSelection {
+  /** This exact pod; it must be a Running pod of the service (or selector). */
+  podName?: string;
+  /** Choose only among the workload's pods matching this selector. */
+  labelSelector?: string;
+  /** Which candidate to take (default: ready). */
+  pick?: PodPick;
+}
+
+function createdAt(pod: K8sPod): number {
+  return Date.parse(pod.metadata.creationTimestamp ?? '') || 0;
+}
+
+/**
+ * The candidate a pick chooses among Running pods: newest or oldest by
+ * creation time, the newest Ready pod, or a random one (Ready ones first).
+ */
+export function pickPod(pods: K8sPod[], pick: PodPick): K8sPod | undefined {
+  const running = pods
+    .filter(isPodRunning)
+    .sort((a, b) => createdAt(b) - createdAt(a));
+  const ready = running.filter(isPodReady);
+  switch (pick) {
+    case 'newest':
+      return running[0];
+    case 'oldest':
+      return running[running.length - 1];
+    case 'ready':
+      return ready[0];
+    case 'random': {
+      const pool = ready.length > 0 ? ready : running;
+      return pool[Math.floor(Math.random() * pool.length)];
+    }
+  }
+}
+
+/**
+ * Apply a pod selection to a resolved service. Throws when the named pod is
+ * not a Running candidate or the pick finds none.
+ */
+export async function selectPod(
+  namespace: string,
+  workload: string,
+  selection: PodSelection,
+  kube?: KubeTarget
+): Promise<K8sPod> {
+  const pods = await getServicePods(
+    namespace,
+    workload,
+    kube,
+    selection.labelSelector
+  );
+  const of = `of ${workload}${selection.labelSelector ? ` matching ${selection.labelSelector}` : ''}`;
+  if (selection.podName) {
+    const pod = pods.find((p) => p.metadata.name === selection.podName);
+    if (pod && isPodRunning(pod)) return pod;
+    throw new Error(
+      `pod ${selection.podName} is not a Running pod ${of} in namespace ${namespace}${pod ? ` (phase: ${pod.status?.phase ?? 'unknown'})` : ''}`
+    );
+  }
+  const pick = selection.pick ?? 'ready';
+  const pod = pickPod(pods, pick);
+  if (pod) return pod;
+  const running = pods.filter(isPodRunning).length;
+  throw new Error(
+    running > 0
+      ? `none of the ${running} Running pod(s) ${of} is Ready; use pick: newest to take one anyway`
+      : `no Running pods ${of} in namespace ${namespace}`
+  );
+}
+
+/** "ready 1/2, restarts 3" from the container statuses of a pod. */
+export function describePodStatus(pod: K8sPod): string {
+  const statuses = pod.status?.containerStatuses ?? [];
+  const total = statuses.length || (pod.spec?.containers ?? []).length;
+  const ready = statuses.filter((s) => s.ready).length;
+  const restarts = statuses.reduce((sum, s) => sum + s.restartCount, 0);
+  return `ready ${ready}/${total}, restarts ${restarts}`;
+}
+
+/** Cluster-wide pods of one kubeconfig/context, as seen by discovery. */
+interface DiscoveryEntry {
+  /** Pods keyed by "namespace/name". */
+  pods: Map<string, K8sPod>;
+  /** When pods were last listed (0 before the first list). */
+  listedAt: number;
+  /** Pod watch keeping pods current, when the backend supports one. */
+  watch: BackendProcess | null;
+  loading: Promise<void> | null;
+}
+
+export interface Discovery {
+  pods: K8sPod[];
+  /** When the pods were last listed. */
+  listedAt: Date;
+  /** Whether a watch has applied every change since then. */
+  watching: boolean;
+}
+
+// Discovery cache keyed by kubeconfig and context
+const discoveryCache = new Map<string, DiscoveryEntry>();
+
+function podKey(pod: K8sPod): string {
+  return `${pod.metadata.namespace ?? ''}/${pod.metadata.name}`;
+}
+
+function replacePods(entry: DiscoveryEntry, pods: K8sPod[]): void {
+  entry.pods = new Map(pods.map((pod) => [podKey(pod), pod]));
+  entry.listedAt = Date.now();
+}
+
+/** Start a pod watch and resolve once it listed the pods. */
+function startWatch(
+  entry: DiscoveryEntry,
+  kube: KubeTarget,
+  watchPods: NonNullable<K8sBackend['watchPods']>
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let error = '';
+    const watch = watchPods(kube, {
+      sync: (pods) => {
+        replacePods(entry, pods);
+        resolve();
+      },
+      event: (type, pod) => {
+        if (type === 'DELETED') entry.pods.delete(podKey(pod));
+        else entry.pods.set(podKey(pod), pod);
+      },
+    });
+    entry.watch = watch;
+    watch.stderr?.on('data', (data: Buffer) => {
+      error += data.toString();
+      process.stderr.write(`[discovery watch] ${data.toString()}`);
+    });
+    // Without the watch the cache falls back to re-listing after the TTL
+    watch.on('close', () => {
+      if (entry.watch === watch) entry.watch = null;
+      reject(
+        new Error(error.replace(/^error: /, '').trim() || 'pod watch ended')
+      );
+    });
+  });
+}
+
+async function loadPods(
+  entry: DiscoveryEntry,
+  kube: KubeTarget
+): Promise<void> {
+  const { watchPods } = getBackend();
+  if (watchPods && getConfig().discovery.watch && !entry.watch) {
+    return startWatch(entry, kube, watchPods);
+  }
+  replacePods(entry, await getPods(undefined, kube));
+}
+
+/**
+ * Pods of all namespaces, from a cache shared by every tool. Pods are listed
+ * on first use and again once the cache is older than the discovery TTL or
+ * refresh is set; a pod watch (api backend) keeps the cache current in between.
+ */
+export async function discoverPods(
+  kube: KubeTarget = {},
+  options: { refresh?: boolean } = {}
+): Promise<Discovery> {
+  const key = `${kube.kubeconfig ?? ''}\n${kube.context ?? ''}`;
+  let entry = discoveryCache.get(key);
+  if (!entry) {
+    entry = { pods: new Map(), listedAt: 0, watch: null, loading: null };
+    discoveryCache.set(key, entry);
+  }
+  const ttlMs = getConfig().discovery.ttlSeconds * 1000;
+  const expired =
+    entry.listedAt === 0 ||
+    (!entry.watch && Date.now() - entry.listedAt > ttlMs);
+  if (expired || options.refresh) {
+    const current = entry;
+    current.loading ??= loadPods(current, kube).finally(() => {
+      current.loading = null;
+    });
+    await current.loading;
+  }
+  return {
+    pods: [...entry.pods.values()],
+    listedAt: new Date(entry.listedAt),
+    watching: entry.watch != null,
+  };
+}
+
+/** Stop the pod watches of the discovery cache; it re-lists after the TTL again. */
+export function stopDiscoveryWatches(): void {
+  for (const entry of discoveryCache.values()) {
+    const { watch } = entry;
+    entry.watch = null;
+    watch?.kill();
+  }
+}
+
+/** Cache age for tool results, e.g. "listed 12s ago, refreshed after 30s". */
+export function describeDiscovery(discovery: Discovery): string {
+  const age = Math.round((Date.now() - discovery.listedAt.getTime()) / 1000);
+  const freshness = discovery.watching
+    ? 'kept current by a watch'
+    : `refreshed after ${getConfig().discovery.ttlSeconds}s`;
+  return `listed ${age}s ago, ${freshness}`;
+}
+
+/** A port a forward can target, resolved from the Service down to the pod. */
+export interface DetectedPort {
+  /** Service port name, or the container port name for pod-only detection. */
+  name?: string;
+  /** Port exposed by the Service (what svc/<name> forwards use). */
+  servicePort?: number;
+  /** Port on the pod: the resolved targetPort or a container port. */
+  containerPort?: number;
+  /** Name of the container port the Service port targets. */
+  containerPortName?: string;
+  container?: string;
+}
+
+export interface PortDetection {
+  /** "service" when a Service of the workload's name exists, else "pod". */
+  source: 'service' | 'pod';
+  ports: DetectedPort[];
 }
 
-export async function getPods(namespace: string | undefined): Promise<string> {
-  const cmd = namespace
-    ? `kubectl get pods --namespace ${namespace}`
-    : 'kubectl get pods --all-namespaces';
-  return execPromise(cmd);
+export function getPod(
+  namespace: string,
+  podName: string,
+  kube?: KubeTarget
+): Promise<K8sPod> {
+  return getBackend().getPod(namespace, podName, kube);
 }
 
-export async function getServicePort(
-  serviceNamespace: string,
-  serviceName: string
+/** TCP container ports of a pod (port-forward only supports TCP). */
+function containerPorts(
+  pod: K8sPod | null
+): (K8sContainerPort & { container: string })[] {
+  return (pod?.spec?.containers ?? []).flatMap((c) =>
+    (c.ports ?? [])
+      .filter((p) => (p.protocol ?? 'TCP') === 'TCP')
+      .map((p) => ({ ...p, container: c.name }))
+  );
+}
+
+/**
+ * Detect the ports of a service: each TCP Service port mapped through its
+ * targetPort (numeric or named) to the pod's container port. Without a
+ * Service of that name, the pod's container ports are used. With a
+ * container, only ports of that container count, so a sidecar the Service
+ * does not target (e.g. istio-proxy) is detected from its own ports.
+ */
+export async function detectPorts(
+  namespace: string,
+  serviceName: string,
+  podName: string,
+  kube?: KubeTarget,
+  container?: string
+): Promise<PortDetection> {
+  const [service, pod] = await Promise.all([
+    getBackend()
+      .getService(namespace, serviceName, kube)
+      .catch(() => null),
+    getPod(namespace, podName, kube).catch(() => null),
+  ]);
+  const podPorts = containerPorts(pod).filter(
+    (p) => !container || p.container === container
+  );
+  const podDetection: PortDetection = {
+    source: 'pod',
+    ports: podPorts.map((p) => ({
+      name: p.name,
+      containerPort: p.containerPort,
+      container: p.container,
+    })),
+  };
+  if (!service) return podDetection;
+  const ports = (service.spec?.ports ?? [])
+    .filter((p) => (p.protocol ?? 'TCP') === 'TCP')
+    .map((p): DetectedPort => {
+      const target = p.targetPort ?? p.port;
+      const match =
+        typeof target === 'string'
+          ? podPorts.find((c) => c.name === target)
+          : podPorts.find((c) => c.containerPort === target);
+      return {
+        name: p.name,
+        servicePort: p.port,
+        // A named targetPort the pod does not declare cannot be resolved
+        containerPort:
+          typeof target === 'number' ? target : match?.containerPort,
+        containerPortName:
+          match?.name ?? (typeof target === 'string' ? target : undefined),
+        container: match?.container,
+      };
+    });
+  if (container) {
+    const reaching = ports.filter((p) => p.container === container);
+    return reaching.length > 0
+      ? { source: 'service', ports: reaching }
+      : podDetection;
+  }
+  return { source: 'service', ports };
+}
+
+// Port names preferred when a service exposes several ports and none is requested
+const PREFERRED_PORT_NAMES = ['http', 'https', 'web', 'grpc'];
+
+/**
+ * Pick the port to forward to: the one named portName (Service or container
+ * port name), else the only port, else a preferred name, else the first.
+ */
+export function pickPort(
+  ports: DetectedPort[],
+  portName?: string
+): DetectedPort | undefined {
+  if (portName) {
+    return ports.find(
+      (p) => p.name === portName || p.containerPortName === portName
+    );
+  }
+  return (
+    PREFERRED_PORT_NAMES.map((n) => ports.find((p) => p.name === n)).find(
+      Boolean
+    ) ?? ports[0]
+  );
+}
+
+/** Short description like "http 80->8080" or "metrics 9090". */
+export function describePort(port: DetectedPort): string {
+  const numbers =
+    port.servicePort != null
+      ? `${port.servicePort}->${port.containerPort ?? '?'}`
+      : `${port.containerPort}`;
+  return port.name ? `${port.name} ${numbers}` : numbers;
+}
+
+export interface LogOptions {
+  tail?: number;
+  since?: string;
+  container?: string;
+  previous?: boolean;
+  /** Prefix every line with its RFC3339 timestamp. */
+  timestamps?: boolean;
+}
+
+/** One-shot logs for a pod (or other resource reference). */
+export function getLogs(
+  namespace: string,
+  ref: string,
+  options: LogOptions,
+  kube?: KubeTarget
 ): Promise<string> {
-  try {
-    const cmd = `kubectl get service --namespace ${serviceNamespace} ${serviceName} -o jsonpath={.spec.ports[*].port}`;
-    const port = await execPromise(cmd);
-    return port?.trim() || '3000';
-  } catch {
-    return '3000';
+  return getBackend().getLogs(namespace, ref, options, kube);
+}
+
+/** How a requested service name matched a known short name. */
+export type ServiceMatchKind =
+  | 'exact'
+  | 'workload'
+  | 'prefix'
+  | 'substring'
+  | 'similar';
+
+export interface ServiceMatch {
+  shortName: string;
+  kind: ServiceMatchKind;
+  /** The name that matched: the short name or a full workload name. */
+  matchedName: string;
+  /** Environment of the matched workload name, for kind "workload". */
+  environment?: string;
+}
+
+export type ServiceNameResolution =
+  | { match: ServiceMatch }
+  | { candidates: ServiceMatch[] };
+
+// Candidates beyond this are dropped from "did you mean" lists
+const MAX_SERVICE_CANDIDATES = 5;
+
+/**
+ * Optimal string alignment distance: Levenshtein plus swaps of two adjacent
+ * characters, so "wbe" is one edit away from "web".
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+interface ScoredName {
+  kind: ServiceMatchKind;
+  /** Lower is better. */
+  score: number;
+  /** Only offered as a "did you mean" candidate, never resolved to. */
+  suggestion: boolean;
+}
+
+/** Rank of a name for a request. */
+function nameScore(requested: string, name: string): ScoredName {
+  const candidate = name.toLowerCase();
+  const lengthGap = Math.abs(candidate.length - requested.length);
+  if (candidate.startsWith(requested)) {
+    return { kind: 'prefix', score: 1000 + lengthGap, suggestion: false };
+  }
+  if (candidate.includes(requested)) {
+    return { kind: 'substring', score: 2000 + lengthGap, suggestion: false };
+  }
+  // Allow roughly one typo per four characters
+  const distance = editDistance(requested, candidate);
+  if (distance <= Math.max(1, Math.floor(requested.length / 4))) {
+    return { kind: 'similar', score: 3000 + distance, suggestion: false };
+  }
+  // A request containing the name is more specific ("payments-worker" is not "payments")
+  if (requested.startsWith(candidate)) {
+    return { kind: 'prefix', score: 4000 + lengthGap, suggestion: true };
+  }
+  if (requested.includes(candidate)) {
+    return { kind: 'substring', score: 5000 + lengthGap, suggestion: true };
   }
+  return { kind: 'similar', score: 6000 + distance, suggestion: true };
+}
+
+/**
+ * Match a requested name against the short names and full workload names of
+ * discovered services: an exact short name, then an exact workload name
+ * (e.g. "dev-b2b-ecommerce"), then prefix, substring and small-typo matches.
+ * One matching service (or one clearly closest typo) is accepted; several
+ * come back ranked as candidates. Names that are only part of the request,
+ * or further off, are suggested but never accepted.
+ */
+export function matchServiceName(
+  servicesMap: ServicesMap,
+  requestedName: string
+): ServiceNameResolution {
+  const requested = requestedName.trim().toLowerCase();
+  for (const shortName of servicesMap.keys()) {
+    if (shortName.toLowerCase() === requested) {
+      return { match: { shortName, kind: 'exact', matchedName: shortName } };
+    }
+  }
+  const workloadMatches: ServiceMatch[] = [];
+  for (const [shortName, envMap] of servicesMap) {
+    for (const [environment, details] of Object.entries(envMap)) {
+      if (details.serviceName.toLowerCase() === requested) {
+        workloadMatches.push({
+          shortName,
+          kind: 'workload',
+          matchedName: details.serviceName,
+          environment,
+        });
+      }
+    }
+  }
+  if (workloadMatches.length === 1) return { match: workloadMatches[0] };
+  if (workloadMatches.length > 1) {
+    // The same workload name in several environments of one service leaves the env open
+    const [first] = workloadMatches;
+    return workloadMatches.every((m) => m.shortName === first.shortName)
+      ? { match: { ...first, environment: undefined } }
+      : { candidates: workloadMatches };
+  }
+
+  const ranked: (ServiceMatch & ScoredName)[] = [];
+  for (const [shortName, envMap] of servicesMap) {
+    const names = [
+      shortName,
+      ...new Set(Object.values(envMap).map((d) => d.serviceName)),
+    ];
+    let best: (ServiceMatch & ScoredName) | null = null;
+    for (const name of names) {
+      const scored = nameScore(requested, name);
+      if (!best || scored.score < best.score) {
+        best = { shortName, matchedName: name, ...scored };
+      }
+    }
+    if (best) ranked.push(best);
+  }
+  ranked.sort(
+    (a, b) => a.score - b.score || a.shortName.localeCompare(b.shortName)
+  );
+  const strip = ({ score: _, suggestion: __, ...match }: (typeof ranked)[0]) =>
+    match;
+  const matches = ranked.filter((r) => !r.suggestion);
+  // A typo closer to one name than to any other is as good as unique
+  const [top, runnerUp] = matches;
+  if (
+    matches.length === 1 ||
+    (top?.kind === 'similar' && top.score < runnerUp.score)
+  ) {
+    return { match: strip(top) };
+  }
+  return {
+    candidates: ranked.slice(0, MAX_SERVICE_CANDIDATES).map(strip),
+  };
+}
+
+/** Note for a service name that did not match exactly, e.g. `"ecomerce" resolved to b2b-ecommerce (similar name)`. */
+export function describeServiceMatch(
+  requestedName: string,
+  match: ServiceMatch
+): string | undefined {
+  if (match.kind === 'exact') return undefined;
+  const how =
+    match.kind === 'workload'
+      ? `workload name${match.environment ? `, env ${match.environment}` : ''}`
+      : match.matchedName === match.shortName
+        ? `${match.kind} match`
+        : `${match.kind} match of workload ${match.matchedName}`;
+  return `"${requestedName}" resolved to ${match.shortName} (${how})`;
+}
+
+/** Ranked "did you mean" sentence for a name that did not resolve (empty without candidates). */
+export function describeCandidates(candidates: ServiceMatch[]): string {
+  const names = [...new Set(candidates.map((c) => `"${c.shortName}"`))];
+  return names.length > 0 ? ` Did you mean ${names.join(', ')}?` : '';
 }
 
 /**
  * Resolve short name + optional namespace/environment to pod namespace, pod name, service name, and environment.
  * If namespace is given, we pick the environment that lives in that namespace; otherwise we use
- * the given environment or the first one in the map.
+ * the given environment, the first configured environment present, or the first one in the map.
  */
 export function resolveService(
   servicesMap: ServicesMap,
   shortServiceName: string,
-  options: { namespace?: string; environment?: string }
+  options: { namespace?: string; environment?: string },
+  naming: NamingConfig = getConfig().naming
 ): {
   namespace: string;
   podName: string;
@@ -138,25 +864,46 @@ export function resolveService(
     );
     if (entry) {
       const [resolvedEnv, details] = entry;
-      const podName = `${details.serviceName}-${details.id}`;
       return {
         namespace: details.namespace,
-        podName,
+        podName: details.podName,
         serviceName: details.serviceName,
         environment: resolvedEnv,
       };
     }
   }
 
-  if (!env) env = Object.keys(envMap)[0];
+  if (!env) {
+    env =
+      naming.environments.find((e) => Object.hasOwn(envMap, e)) ??
+      Object.keys(envMap)[0];
+  }
+  // env comes from tool arguments: never pick up inherited keys such as "constructor"
+  if (!Object.hasOwn(envMap, env)) return null;
   const details = envMap[env];
-  if (!details) return null;
 
-  const podName = `${details.serviceName}-${details.id}`;
   return {
     namespace: details.namespace,
-    podName,
+    podName: details.podName,
     serviceName: details.serviceName,
     environment: env,
   };
 }
+
+export const FORWARD_TARGETS = ['pod', 'service', 'deployment'] as const;
+
+export type ForwardTarget = (typeof FORWARD_TARGETS)[number];
+
+/**
+ * kubectl resource reference for a port-forward target. "service" and
+ * "deployment" let kubectl pick a backing pod, so the forward is not pinned to
+ * the pod that happened to be Running at resolution time.
+ */
+export function forwardTargetRef(
+  target: ForwardTarget,
+  resolved: { podName: string; serviceName: string }
+): string {
+  if (target === 'service') return `svc/${resolved.serviceName}`;
+  if (target === 'deployment') return `deploy/${resolved.serviceName}`;
+  return resolved.podName;
+}
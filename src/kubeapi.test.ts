@@ -0,0 +1,273 @@
+import assert from 'node:assert/strict';
+import { connect } from 'node:net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+
+import type { BackendProcess } from './backend.js';
+import type { K8sPod } from './k8s.js';
+import { apiBackend, KubeApiError } from './kubeapi.js';
+import {
+  channelFrame,
+  fakePod,
+  portPrefixFrame,
+  startFakeApiServer,
+  type FakeApiServer,
+} from './testing/fakeapi.js';
+import { freeEphemeralPort } from './util.js';
+
+let fake: FakeApiServer;
+const kube = () => ({ kubeconfig: fake.kubeconfig });
+
+/** Collect a stream's text until `done` accepts it. */
+function waitForOutput(
+  stream: BackendProcess['stdout'],
+  done: (text: string) => boolean
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    const timer = setTimeout(
+      () => reject(new Error(`timed out, got: ${JSON.stringify(text)}`)),
+      5000
+    );
+    stream?.on('data', (chunk: Buffer) => {
+      text += chunk.toString('utf8');
+      if (done(text)) {
+        clearTimeout(timer);
+        resolve(text);
+      }
+    });
+  });
+}
+
+/** Open a local connection, send `data` and resolve with everything received until it closes. */
+function exchange(port: number, data: string): Promise<string> {
+  return new Promise((resolve) => {
+    const socket = connect(port, '127.0.0.1', () => socket.write(data));
+    let received = '';
+    socket.on('data', (chunk) => (received += chunk.toString('utf8')));
+    socket.on('end', () => socket.end());
+    // A reset is a close as well
+    socket.on('error', () => {});
+    socket.on('close', () => resolve(received));
+  });
+}
+
+before(async () => {
+  fake = await startFakeApiServer();
+});
+
+after(async () => {
+  await fake.close();
+});
+
+beforeEach(() => {
+  fake.pods = [
+    fakePod('web-1', { app: 'web' }, [{ name: 'http', containerPort: 8080 }]),
+    fakePod('worker-1', { app: 'worker' }),
+  ];
+  fake.services = [
+    {
+      metadata: { name: 'web', namespace: 'default' },
+      spec: {
+        selector: { app: 'web' },
+        ports: [{ name: 'http', port: 80, targetPort: 'http' }],
+      },
+    },
+  ];
+  fake.requests = [];
+});
+
+describe('getPods', () => {
+  it('lists the pods of a namespace with the label selector', async () => {
+    const pods = await apiBackend.getPods('default', kube(), 'app=web');
+    assert.deepEqual(
+      pods.map((p) => p.metadata.name),
+      ['web-1']
+    );
+    const request = fake.requests.at(-1)!;
+    assert.equal(request.pathname, '/api/v1/namespaces/default/pods');
+    assert.equal(request.searchParams.get('labelSelector'), 'app=web');
+  });
+
+  it('lists the pods of all namespaces', async () => {
+    const pods = await apiBackend.getPods(undefined, kube());
+    assert.equal(pods.length, 2);
+    assert.equal(fake.requests.at(-1)!.pathname, '/api/v1/pods');
+  });
+
+  it('reports API errors like kubectl', async () => {
+    await assert.rejects(
+      apiBackend.getPod('default', 'missing', kube()),
+      (err: unknown) =>
+        err instanceof KubeApiError &&
+        err.statusCode === 404 &&
+        err.message === 'Error from server (NotFound): pods "missing" not found'
+    );
+  });
+});
+
+describe('getLogs', () => {
+  it('passes tail, container and since (in seconds) to the log endpoint', async () => {
+    const text = await apiBackend.getLogs(
+      'default',
+      'web-1',
+      { tail: 50, since: '1h30m', container: 'app', timestamps: true },
+      kube()
+    );
+    assert.equal(text, 'web-1 line 1\nweb-1 line 2\n');
+    const request = fake.requests.at(-1)!;
+    assert.equal(request.pathname, '/api/v1/namespaces/default/pods/web-1/log');
+    assert.equal(request.searchParams.get('tailLines'), '50');
+    assert.equal(request.searchParams.get('sinceSeconds'), '5400');
+    assert.equal(request.searchParams.get('container'), 'app');
+    assert.equal(request.searchParams.get('timestamps'), 'true');
+  });
+
+  it('rounds sub-second durations up to one second', async () => {
+    await apiBackend.getLogs('default', 'web-1', { since: '500ms' }, kube());
+    assert.equal(fake.requests.at(-1)!.searchParams.get('sinceSeconds'), '1');
+  });
+
+  it('reads the logs of a pod behind a service', async () => {
+    const text = await apiBackend.getLogs('default', 'svc/web', {}, kube());
+    assert.equal(text, 'web-1 line 1\nweb-1 line 2\n');
+    assert.equal(fake.requests.at(-1)!.searchParams.has('sinceSeconds'), false);
+  });
+});
+
+describe('watchPods', () => {
+  it('resumes from the last resourceVersion and lists again after 410 Gone', async () => {
+    fake.listVersion = '5';
+    const added = fakePod('web-2', { app: 'web' });
+    added.metadata.resourceVersion = '6';
+    const versions: string[] = [];
+    fake.watch = (res, query) => {
+      const version = query.get('resourceVersion')!;
+      versions.push(version);
+      if (version === '5') {
+        res.end(`${JSON.stringify({ type: 'ADDED', object: added })}\n`);
+      } else {
+        res.end(
+          `${JSON.stringify({ type: 'ERROR', object: { code: 410, reason: 'Expired', message: 'too old' } })}\n`
+        );
+      }
+    };
+    const syncs: string[][] = [];
+    const events: string[] = [];
+    let resynced = () => {};
+    const op = apiBackend.watchPods!(kube(), {
+      sync: (pods: K8sPod[]) => {
+        syncs.push(pods.map((p) => p.metadata.name));
+        if (syncs.length === 2) resynced();
+      },
+      event: (type, pod) => events.push(`${type} ${pod.metadata.name}`),
+    });
+    try {
+      await new Promise<void>((resolve) => (resynced = resolve));
+    } finally {
+      op.kill();
+    }
+    assert.deepEqual(versions, ['5', '6']);
+    assert.deepEqual(events, ['ADDED web-2']);
+    assert.equal(syncs.length, 2);
+  });
+
+  it('ends a watch that is still waiting for the server when killed', async () => {
+    let closed: Promise<unknown> | undefined;
+    let watching = () => {};
+    // Never answers, like a watch before its first event
+    fake.watch = (res) => {
+      closed = new Promise((resolve) => res.on('close', resolve));
+      watching();
+    };
+    const op = apiBackend.watchPods!(kube(), {
+      sync: () => {},
+      event: () => {},
+    });
+    await new Promise<void>((resolve) => (watching = resolve));
+    op.kill();
+    await closed;
+  });
+});
+
+describe('portForward', () => {
+  it('tunnels a connection over v4.channel.k8s.io', async () => {
+    let session: { pod: string; port: number; protocol: string } | undefined;
+    fake.portForward = ({ ws, pod, port, protocol }) => {
+      session = { pod, port, protocol };
+      ws.send(portPrefixFrame(0, port));
+      ws.send(portPrefixFrame(1, port));
+      ws.on('message', (data: Buffer) => {
+        assert.equal(data[0], 0);
+        ws.send(channelFrame(0, Buffer.from(`echo:${data.subarray(1)}`)));
+        ws.close();
+      });
+    };
+    const localPort = await freeEphemeralPort();
+    const op = apiBackend.portForward({
+      ...kube(),
+      namespace: 'default',
+      targetRef: 'svc/web',
+      localPort,
+      remotePort: 80,
+    });
+    try {
+      await waitForOutput(op.stdout, (t) => t.includes('Forwarding from'));
+      assert.equal(await exchange(localPort, 'ping'), 'echo:ping');
+    } finally {
+      op.kill();
+    }
+    assert.deepEqual(session, {
+      pod: 'web-1',
+      port: 8080,
+      protocol: 'v4.channel.k8s.io',
+    });
+  });
+
+  it('reports frames on the error channel like kubectl', async () => {
+    fake.portForward = ({ ws, port }) => {
+      ws.send(portPrefixFrame(0, port));
+      ws.send(portPrefixFrame(1, port));
+      ws.send(channelFrame(1, Buffer.from('connection refused')));
+      ws.close();
+    };
+    const localPort = await freeEphemeralPort();
+    const op = apiBackend.portForward({
+      ...kube(),
+      namespace: 'default',
+      targetRef: 'web-1',
+      localPort,
+      remotePort: 'http',
+    });
+    try {
+      await waitForOutput(op.stdout, (t) => t.includes('Forwarding from'));
+      const stderr = waitForOutput(op.stderr, (t) => t.includes('\n'));
+      assert.equal(await exchange(localPort, 'ping'), '');
+      assert.equal(
+        await stderr,
+        `error: an error occurred forwarding ${localPort} -> 8080: error forwarding port 8080 to pod web-1: connection refused\n`
+      );
+    } finally {
+      op.kill();
+    }
+  });
+
+  it('reports a pod that is gone as a lost connection', async () => {
+    const localPort = await freeEphemeralPort();
+    const op = apiBackend.portForward({
+      ...kube(),
+      namespace: 'default',
+      targetRef: 'web-1',
+      localPort,
+      remotePort: 8080,
+    });
+    try {
+      await waitForOutput(op.stdout, (t) => t.includes('Forwarding from'));
+      fake.pods = [];
+      const stderr = waitForOutput(op.stderr, (t) => t.includes('\n'));
+      await exchange(localPort, 'ping');
+      assert.match(await stderr, /^error: lost connection to pod: /);
+    } finally {
+      op.kill();
+    }
+  });
+});
@@ -0,0 +1,659 @@
+import { EventEmitter } from 'node:events';
+import {
+  request as httpRequest,
+  STATUS_CODES,
+  type ClientRequest,
+  type IncomingMessage,
+} from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { createServer, type Server, type Socket } from 'node:net';
+import { PassThrough } from 'node:stream';
+
+import WebSocket from 'ws';
+
+import type {
+  BackendProcess,
+  K8sBackend,
+  PodWatchHandlers,
+  PortForwardRequest,
+} from './backend.js';
+import type {
+  K8sList,
+  K8sObjectMeta,
+  K8sPod,
+  K8sService,
+  KubeTarget,
+} from './k8s.js';
+import {
+  clusterConnection,
+  loadKubeconfig,
+  type ClusterConnection,
+} from './kubeconfig.js';
+import { LOOPBACK_ADDRESS } from './util.js';
+
+/** A failed API request, rendered like kubectl's "Error from server" lines. */
+export class KubeApiError extends Error {
+  constructor(
+    readonly statusCode: number,
+    readonly reason: string,
+    message: string
+  ) {
+    super(`Error from server (${reason}): ${message}`);
+    this.name = 'KubeApiError';
+  }
+}
+
+interface K8sStatus {
+  kind?: string;
+  reason?: string;
+  message?: string;
+}
+
+interface K8sDeployment {
+  metadata: K8sObjectMeta;
+  spec?: { selector?: { matchLabels?: Record<string, string> } };
+}
+
+// Subprotocol of the portforward subresource: one data and one error channel per port
+const PORT_FORWARD_PROTOCOL = 'v4.channel.k8s.io';
+const DATA_CHANNEL = 0;
+const ERROR_CHANNEL = 1;
+
+// Pause between pod watches so a server that ends them early is not hammered
+const WATCH_RESUME_DELAY_MS = 1000;
+
+// Only used between watches, so the timer does not keep the process alive
+const delay = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms).unref());
+
+function apiUrl(
+  conn: ClusterConnection,
+  path: string,
+  query: Record<string, string | number | boolean | undefined> = {}
+): URL {
+  const url = new URL(conn.server + path);
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined && value !== false) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  return url;
+}
+
+function send(
+  conn: ClusterConnection,
+  url: URL,
+  onRequest?: (req: ClientRequest) => void
+): Promise<IncomingMessage> {
+  const request = url.protocol === 'http:' ? httpRequest : httpsRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(url, { headers: conn.headers, ...conn.tls }, resolve);
+    req.on('error', reject);
+    onRequest?.(req);
+    req.end();
+  });
+}
+
+async function readBody(res: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of res) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function apiError(statusCode: number, body: string): KubeApiError {
+  let status: K8sStatus = {};
+  try {
+    status = JSON.parse(body) as K8sStatus;
+  } catch {
+    // not a Status object (e.g. a proxy error page)
+  }
+  return new KubeApiError(
+    statusCode,
+    status.reason ?? `HTTP ${statusCode}`,
+    status.message ?? (body.trim() || STATUS_CODES[statusCode] || '')
+  );
+}
+
+/** GET a path and return the body; non-2xx responses become KubeApiError. */
+async function apiGet(
+  conn: ClusterConnection,
+  path: string,
+  query?: Record<string, string | number | boolean | undefined>
+): Promise<string> {
+  const res = await send(conn, apiUrl(conn, path, query));
+  const body = await readBody(res);
+  const status = res.statusCode ?? 0;
+  if (status < 200 || status >= 300) throw apiError(status, body);
+  return body;
+}
+
+async function apiJson<T>(
+  conn: ClusterConnection,
+  path: string,
+  query?: Record<string, string | number | boolean | undefined>
+): Promise<T> {
+  return JSON.parse(await apiGet(conn, path, query)) as T;
+}
+
+function namespacePath(namespace: string, resource: string): string {
+  return `/api/v1/namespaces/${encodeURIComponent(namespace)}/${resource}`;
+}
+
+function podPath(namespace: string, pod: string, subresource = ''): string {
+  const base = namespacePath(namespace, `pods/${encodeURIComponent(pod)}`);
+  return subresource ? `${base}/${subresource}` : base;
+}
+
+function labelSelector(labels: Record<string, string> = {}): string {
+  return Object.entries(labels)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(',');
+}
+
+async function getServiceObject(
+  conn: ClusterConnection,
+  namespace: string,
+  name: string
+): Promise<K8sService | null> {
+  try {
+    return await apiJson<K8sService>(
+      conn,
+      namespacePath(namespace, `services/${encodeURIComponent(name)}`)
+    );
+  } catch (err) {
+    if (err instanceof KubeApiError && err.statusCode === 404) return null;
+    throw err;
+  }
+}
+
+/** Go durations as accepted by `kubectl logs --since` (e.g. "1h30m") in seconds. */
+function durationSeconds(duration: string): number {
+  const units: Record<string, number> = { ms: 0.001, s: 1, m: 60, h: 3600 };
+  let seconds = 0;
+  for (const [, amount, unit] of duration.matchAll(/(\d+)(ms|s|m|h)/g)) {
+    seconds += Number(amount) * units[unit];
+  }
+  return Math.max(1, Math.ceil(seconds));
+}
+
+function isReady(pod: K8sPod): boolean {
+  return (
+    pod.status?.phase === 'Running' &&
+    !pod.metadata.deletionTimestamp &&
+    (pod.status.conditions ?? []).some(
+      (c) => c.type === 'Ready' && c.status === 'True'
+    )
+  );
+}
+
+/** A Running pod matching a selector, preferring Ready ones (as kubectl does). */
+async function podForSelector(
+  conn: ClusterConnection,
+  namespace: string,
+  selector: Record<string, string> | undefined,
+  what: string
+): Promise<K8sPod> {
+  if (!selector || Object.keys(selector).length === 0) {
+    throw new Error(`${what} has no selector`);
+  }
+  const list = await apiJson<K8sList<K8sPod>>(
+    conn,
+    namespacePath(namespace, 'pods'),
+    { labelSelector: labelSelector(selector) }
+  );
+  const running = list.items.filter(
+    (p) => p.status?.phase === 'Running' && !p.metadata.deletionTimestamp
+  );
+  const pod = running.find(isReady) ?? running[0];
+  if (!pod) throw new Error(`no running pod found for ${what}`);
+  return pod;
+}
+
+/** The pod a reference (pod name, pod/, svc/ or deploy/) resolves to, plus its Service. */
+async function resolveRef(
+  conn: ClusterConnection,
+  namespace: string,
+  ref: string
+): Promise<{ pod: K8sPod; service: K8sService | null }> {
+  const [kind, name] = ref.includes('/') ? ref.split('/', 2) : ['pod', ref];
+  switch (kind) {
+    case 'svc':
+    case 'service': {
+      const service = await getServiceObject(conn, namespace, name);
+      if (!service) {
+        throw new KubeApiError(404, 'NotFound', `services "${name}" not found`);
+      }
+      const pod = await podForSelector(
+        conn,
+        namespace,
+        service.spec?.selector,
+        `service/${name}`
+      );
+      return { pod, service };
+    }
+    case 'deploy':
+    case 'deployment': {
+      const deployment = await apiJson<K8sDeployment>(
+        conn,
+        `/apis/apps/v1/namespaces/${encodeURIComponent(namespace)}/deployments/${encodeURIComponent(name)}`
+      );
+      const pod = await podForSelector(
+        conn,
+        namespace,
+        deployment.spec?.selector?.matchLabels,
+        `deployment/${name}`
+      );
+      return { pod, service: null };
+    }
+    case 'pod':
+    case 'pods':
+      return {
+        pod: await apiJson<K8sPod>(conn, podPath(namespace, name)),
+        service: null,
+      };
+    default:
+      throw new Error(`unsupported resource reference "${ref}"`);
+  }
+}
+
+/**
+ * Map the requested remote port to a container port of the pod: through the
+ * Service's port and targetPort for svc/ refs, else by container port name.
+ */
+function containerPortFor(
+  pod: K8sPod,
+  service: K8sService | null,
+  remotePort: number | string
+): number {
+  const podPorts = (pod.spec?.containers ?? []).flatMap((c) => c.ports ?? []);
+  if (typeof remotePort === 'string' && /^\d+$/.test(remotePort)) {
+    remotePort = Number(remotePort);
+  }
+  let target: number | string = remotePort;
+  if (service) {
+    const port = (service.spec?.ports ?? []).find((p) =>
+      typeof remotePort === 'number'
+        ? p.port === remotePort
+        : p.name === remotePort
+    );
+    if (!port) {
+      throw new Error(
+        `Service ${service.metadata.name} does not have a service port ${remotePort}`
+      );
+    }
+    target = port.targetPort ?? port.port;
+  }
+  if (typeof target === 'number') return target;
+  const named = podPorts.find((p) => p.name === target);
+  if (!named) {
+    throw new Error(
+      `Pod ${pod.metadata.name} does not have a named port '${target}'`
+    );
+  }
+  return named.containerPort;
+}
+
+/**
+ * An in-process stand-in for a kubectl child: output goes to the stdout and
+ * stderr streams, and "close" is emitted once it is killed or fails.
+ */
+class InProcessOperation extends EventEmitter implements BackendProcess {
+  readonly pid = undefined;
+  readonly stdout = new PassThrough();
+  readonly stderr = new PassThrough();
+  private closed = false;
+  private readonly cleanups: (() => void)[] = [];
+
+  onKill(cleanup: () => void): void {
+    this.cleanups.push(cleanup);
+  }
+
+  get killed(): boolean {
+    return this.closed;
+  }
+
+  kill(): boolean {
+    if (this.closed) return false;
+    this.close(null);
+    return true;
+  }
+
+  fail(err: unknown): void {
+    if (this.closed) return;
+    this.stderr.write(`error: ${err instanceof Error ? err.message : err}\n`);
+    this.close(1);
+  }
+
+  close(code: number | null): void {
+    if (this.closed) return;
+    this.closed = true;
+    for (const cleanup of this.cleanups) {
+      try {
+        cleanup();
+      } catch {
+        // ignore
+      }
+    }
+    this.stdout.end();
+    this.stderr.end();
+    // Let listeners see the last output before the close event
+    setImmediate(() => this.emit('close', code));
+  }
+}
+
+function streamPodLogs(
+  op: InProcessOperation,
+  conn: ClusterConnection,
+  namespace: string,
+  pod: string,
+  query: Record<string, string | number | boolean | undefined>
+): Promise<void> {
+  return send(conn, apiUrl(conn, podPath(namespace, pod, 'log'), query)).then(
+    async (res) => {
+      const status = res.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        throw apiError(status, await readBody(res));
+      }
+      op.onKill(() => res.destroy());
+      res.on('data', (chunk: Buffer) => op.stdout.write(chunk));
+      res.on('end', () => op.close(0));
+      res.on('error', (err) => op.fail(err));
+    }
+  );
+}
+
+interface WatchEvent {
+  type: 'ADDED' | 'MODIFIED' | 'DELETED' | 'BOOKMARK' | 'ERROR';
+  object: K8sPod & K8sStatus & { code?: number };
+}
+
+/**
+ * Watch all pods from resourceVersion until the server ends the watch.
+ * Resolves with the version to resume from, or undefined when it is too old
+ * (410 Gone) and the pods have to be listed again.
+ */
+async function watchPodsFrom(
+  op: InProcessOperation,
+  conn: ClusterConnection,
+  resourceVersion: string,
+  handlers: PodWatchHandlers,
+  setRequest: (req: ClientRequest | null) => void
+): Promise<string | undefined> {
+  const res = await send(
+    conn,
+    apiUrl(conn, '/api/v1/pods', {
+      watch: true,
+      resourceVersion,
+      allowWatchBookmarks: true,
+    }),
+    (req) => {
+      setRequest(req);
+      // A background watch must not keep the process alive on its own
+      req.on('socket', (socket) => socket.unref());
+    }
+  );
+  const status = res.statusCode ?? 0;
+  if (status === 410) return undefined;
+  if (status < 200 || status >= 300) {
+    throw apiError(status, await readBody(res));
+  }
+  let version: string | undefined = resourceVersion;
+  // One JSON event per line
+  let partial = '';
+  for await (const chunk of res) {
+    const lines = (partial + (chunk as Buffer).toString('utf8')).split('\n');
+    partial = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event = JSON.parse(line) as WatchEvent;
+      if (event.type === 'ERROR') {
+        if (event.object.code === 410) return undefined;
+        throw new KubeApiError(
+          event.object.code ?? 0,
+          event.object.reason ?? 'Unknown',
+          event.object.message ?? 'watch failed'
+        );
+      }
+      version = event.object.metadata?.resourceVersion ?? version;
+      if (
+        event.type === 'ADDED' ||
+        event.type === 'MODIFIED' ||
+        event.type === 'DELETED'
+      ) {
+        handlers.event(event.type, event.object);
+      }
+    }
+  }
+  setRequest(null);
+  return op.killed ? undefined : version;
+}
+
+/** Tunnel one local connection to a pod port through the portforward subresource. */
+function forwardConnection(
+  op: InProcessOperation,
+  conn: ClusterConnection,
+  namespace: string,
+  podName: string,
+  port: number,
+  socket: Socket
+): void {
+  const url = apiUrl(conn, podPath(namespace, podName, 'portforward'), {
+    ports: port,
+  });
+  url.protocol = url.protocol === 'http:' ? 'ws:' : 'wss:';
+  const ws = new WebSocket(url, [PORT_FORWARD_PROTOCOL], {
+    headers: conn.headers,
+    ...conn.tls,
+  });
+  const pending: Buffer[] = [];
+  // The first frame of each channel carries the port number (2 bytes, little-endian)
+  const prefixSkipped = [false, false];
+  let errorText = '';
+
+  const sendData = (chunk: Buffer) =>
+    ws.send(Buffer.concat([Buffer.from([DATA_CHANNEL]), chunk]));
+
+  socket.on('data', (chunk: Buffer) => {
+    if (ws.readyState === WebSocket.OPEN) sendData(chunk);
+    else pending.push(chunk);
+  });
+  // Once the local side is gone (e.g. a readiness probe) handshake errors are expected
+  let abandoned = false;
+  const abandon = () => {
+    abandoned = true;
+    if (ws.readyState === WebSocket.CONNECTING) ws.terminate();
+    else ws.close();
+  };
+  socket.on('close', abandon);
+  socket.on('error', abandon);
+
+  ws.on('open', () => {
+    for (const chunk of pending.splice(0)) sendData(chunk);
+  });
+  ws.on('message', (data: Buffer) => {
+    const channel = data[0];
+    let payload = data.subarray(1);
+    if (channel !== DATA_CHANNEL && channel !== ERROR_CHANNEL) return;
+    if (!prefixSkipped[channel]) {
+      prefixSkipped[channel] = true;
+      payload = payload.subarray(2);
+    }
+    if (payload.length === 0) return;
+    if (channel === DATA_CHANNEL) {
+      if (!socket.write(payload)) {
+        ws.pause();
+        socket.once('drain', () => ws.resume());
+      }
+    } else {
+      errorText += payload.toString('utf8');
+    }
+  });
+  ws.on('close', () => {
+    if (errorText) {
+      op.stderr.write(
+        `error: an error occurred forwarding ${socket.localPort} -> ${port}: error forwarding port ${port} to pod ${podName}: ${errorText.trim()}\n`
+      );
+    }
+    socket.end();
+  });
+  ws.on('unexpected-response', (_req, res) => {
+    socket.destroy();
+    void readBody(res)
+      .catch(() => '')
+      .then((body) => {
+        const err = apiError(res.statusCode ?? 0, body);
+        // The pod is gone: report it like kubectl so the forward is restarted
+        op.stderr.write(
+          res.statusCode === 404
+            ? `error: lost connection to pod: ${err.message}\n`
+            : `error: ${err.message}\n`
+        );
+        ws.terminate();
+      });
+  });
+  ws.on('error', (err) => {
+    if (!abandoned) op.stderr.write(`error: ${err.message}\n`);
+    socket.destroy();
+  });
+  op.onKill(() => {
+    ws.terminate();
+    socket.destroy();
+  });
+}
+
+async function startPortForward(
+  op: InProcessOperation,
+  request: PortForwardRequest
+): Promise<void> {
+  const conn = await clusterConnection(request);
+  const { pod, service } = await resolveRef(
+    conn,
+    request.namespace,
+    request.targetRef
+  );
+  const port = containerPortFor(pod, service, request.remotePort);
+  const podName = pod.metadata.name;
+  if (op.killed) return;
+
+  const server: Server = createServer((socket) => {
+    op.stdout.write(`Handling connection for ${request.localPort}\n`);
+    forwardConnection(op, conn, request.namespace, podName, port, socket);
+  });
+  op.onKill(() => server.close());
+  server.on('error', (err) => op.fail(err));
+  const address = request.address ?? LOOPBACK_ADDRESS;
+  server.listen(request.localPort, address, () => {
+    op.stdout.write(
+      `Forwarding from ${address}:${request.localPort} -> ${port}\n`
+    );
+  });
+}
+
+/** Backend that talks to the API server directly using the kubeconfig. */
+export const apiBackend: K8sBackend = {
+  name: 'api',
+
+  async getContexts(kubeconfig) {
+    const config = loadKubeconfig(kubeconfig);
+    return {
+      contexts: config.contexts.map((c) => c.name),
+      current: config.currentContext,
+    };
+  },
+
+  async getNamespaces(kube) {
+    const conn = await clusterConnection(kube);
+    const list = await apiJson<K8sList<{ metadata: K8sObjectMeta }>>(
+      conn,
+      '/api/v1/namespaces'
+    );
+    return list.items.map((ns) => ns.metadata.name);
+  },
+
+  async getPods(namespace, kube, selector) {
+    const conn = await clusterConnection(kube);
+    const list = await apiJson<K8sList<K8sPod>>(
+      conn,
+      namespace ? namespacePath(namespace, 'pods') : '/api/v1/pods',
+      { labelSelector: selector }
+    );
+    return list.items;
+  },
+
+  async getPod(namespace, name, kube) {
+    const conn = await clusterConnection(kube);
+    return apiJson<K8sPod>(conn, podPath(namespace, name));
+  },
+
+  async getService(namespace, name, kube) {
+    return getServiceObject(await clusterConnection(kube), namespace, name);
+  },
+
+  async getLogs(namespace, ref, options, kube) {
+    const conn = await clusterConnection(kube);
+    const { pod } = await resolveRef(conn, namespace, ref);
+    return apiGet(conn, podPath(namespace, pod.metadata.name, 'log'), {
+      tailLines: options.tail,
+      sinceSeconds: options.since ? durationSeconds(options.since) : undefined,
+      container: options.container,
+      previous: options.previous,
+      timestamps: options.timestamps,
+    });
+  },
+
+  streamLogs(namespace, ref, options, kube) {
+    const op = new InProcessOperation();
+    void (async () => {
+      const conn = await clusterConnection(kube);
+      const { pod } = await resolveRef(conn, namespace, ref);
+      if (op.killed) return;
+      await streamPodLogs(op, conn, namespace, pod.metadata.name, {
+        follow: true,
+        container: options.container,
+        timestamps: options.timestamps,
+        sinceTime: options.sinceTime,
+        tailLines: options.sinceTime ? undefined : options.tail,
+      });
+    })().catch((err) => op.fail(err));
+    return op;
+  },
+
+  portForward(request) {
+    const op = new InProcessOperation();
+    startPortForward(op, request).catch((err) => op.fail(err));
+    return op;
+  },
+
+  watchPods(kube, handlers) {
+    const op = new InProcessOperation();
+    let current: ClientRequest | null = null;
+    op.onKill(() => current?.destroy());
+    void (async () => {
+      const conn = await clusterConnection(kube);
+      let resourceVersion: string | undefined;
+      let resumed = false;
+      while (!op.killed) {
+        if (!resourceVersion) {
+          const list = await apiJson<K8sList<K8sPod>>(conn, '/api/v1/pods');
+          if (op.killed) return;
+          handlers.sync(list.items);
+          resourceVersion = list.metadata?.resourceVersion;
+          if (!resourceVersion)
+            throw new Error('pod list has no resourceVersion');
+        }
+        // The server ends watches after a few minutes; resume where it stopped
+        if (resumed) await delay(WATCH_RESUME_DELAY_MS);
+        if (op.killed) return;
+        resumed = true;
+        resourceVersion = await watchPodsFrom(
+          op,
+          conn,
+          resourceVersion,
+          handlers,
+          (req) => (current = req)
+        );
+      }
+    })().catch((err) => op.fail(err));
+    return op;
+  },
+};
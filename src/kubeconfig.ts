@@ -0,0 +1,330 @@
+import { execFile } from 'node:child_process';
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { delimiter, dirname, isAbsolute, join, resolve } from 'node:path';
+import type { ConnectionOptions } from 'node:tls';
+
+import { parse as parseYaml } from 'yaml';
+
+import type { KubeTarget } from './k8s.js';
+
+// The parts of a kubeconfig file the API backend understands
+interface NamedEntry<T> {
+  name: string;
+  value: T;
+}
+
+interface ClusterEntry {
+  server: string;
+  'certificate-authority'?: string;
+  'certificate-authority-data'?: string;
+  'insecure-skip-tls-verify'?: boolean;
+  'tls-server-name'?: string;
+}
+
+interface ExecConfig {
+  command: string;
+  args?: string[];
+  env?: { name: string; value: string }[] | null;
+  apiVersion?: string;
+}
+
+interface UserEntry {
+  token?: string;
+  tokenFile?: string;
+  username?: string;
+  password?: string;
+  'client-certificate'?: string;
+  'client-certificate-data'?: string;
+  'client-key'?: string;
+  'client-key-data'?: string;
+  exec?: ExecConfig;
+  'auth-provider'?: { name?: string; config?: Record<string, string> };
+}
+
+interface ContextEntry {
+  cluster: string;
+  user?: string;
+  namespace?: string;
+}
+
+/** Merged kubeconfig: for every name the first file defining it wins. */
+export interface Kubeconfig {
+  currentContext: string | null;
+  contexts: NamedEntry<ContextEntry>[];
+  clusters: NamedEntry<ClusterEntry>[];
+  users: NamedEntry<UserEntry>[];
+}
+
+/** How to reach the API server of one context. */
+export interface ClusterConnection {
+  /** Server URL without a trailing slash (may include a path prefix). */
+  server: string;
+  tls: ConnectionOptions;
+  headers: Record<string, string>;
+}
+
+const SERVICE_ACCOUNT_DIR = '/var/run/secrets/kubernetes.io/serviceaccount';
+// Refresh exec credentials this long before they expire
+const EXPIRY_MARGIN_MS = 30_000;
+
+/** Kubeconfig files in kubectl's order: --kubeconfig, $KUBECONFIG, ~/.kube/config. */
+function kubeconfigPaths(kubeconfig?: string): string[] {
+  if (kubeconfig) return [kubeconfig];
+  const fromEnv = (process.env.KUBECONFIG ?? '')
+    .split(delimiter)
+    .filter(Boolean);
+  if (fromEnv.length > 0) return fromEnv.filter((p) => existsSync(p));
+  const fallback = join(homedir(), '.kube', 'config');
+  return existsSync(fallback) ? [fallback] : [];
+}
+
+/** Paths inside a kubeconfig are relative to the file that contains them. */
+function resolvePaths<T extends object>(
+  entry: T,
+  keys: (keyof T)[],
+  base: string
+): T {
+  const resolved = { ...entry };
+  for (const key of keys) {
+    const value = resolved[key];
+    if (typeof value === 'string' && !isAbsolute(value)) {
+      resolved[key] = resolve(base, value) as T[keyof T];
+    }
+  }
+  return resolved;
+}
+
+function namedEntries<T extends object>(
+  list: unknown,
+  field: string,
+  pathKeys: (keyof T)[],
+  base: string
+): NamedEntry<T>[] {
+  if (!Array.isArray(list)) return [];
+  return list
+    .filter((e) => e && typeof e.name === 'string' && e[field])
+    .map((e) => ({
+      name: e.name as string,
+      value: resolvePaths(e[field] as T, pathKeys, base),
+    }));
+}
+
+function mergeByName<T>(target: NamedEntry<T>[], entries: NamedEntry<T>[]) {
+  for (const entry of entries) {
+    if (!target.some((e) => e.name === entry.name)) target.push(entry);
+  }
+}
+
+export function loadKubeconfig(kubeconfig?: string): Kubeconfig {
+  const merged: Kubeconfig = {
+    currentContext: null,
+    contexts: [],
+    clusters: [],
+    users: [],
+  };
+  for (const path of kubeconfigPaths(kubeconfig)) {
+    let doc: Record<string, unknown>;
+    try {
+      doc = (parseYaml(readFileSync(path, 'utf8')) ?? {}) as Record<
+        string,
+        unknown
+      >;
+    } catch (err) {
+      throw new Error(
+        `Cannot read kubeconfig ${path}: ${err instanceof Error ? err.message : err}`
+      );
+    }
+    const base = dirname(path);
+    if (!merged.currentContext && typeof doc['current-context'] === 'string') {
+      merged.currentContext = doc['current-context'] || null;
+    }
+    mergeByName(
+      merged.contexts,
+      namedEntries<ContextEntry>(doc.contexts, 'context', [], base)
+    );
+    mergeByName(
+      merged.clusters,
+      namedEntries<ClusterEntry>(
+        doc.clusters,
+        'cluster',
+        ['certificate-authority'],
+        base
+      )
+    );
+    mergeByName(
+      merged.users,
+      namedEntries<UserEntry>(
+        doc.users,
+        'user',
+        ['tokenFile', 'client-certificate', 'client-key'],
+        base
+      )
+    );
+  }
+  return merged;
+}
+
+function decode(data: string): Buffer {
+  return Buffer.from(data, 'base64');
+}
+
+/** Credentials from an exec plugin, cached until they expire. */
+interface ExecCredential {
+  token?: string;
+  clientCertificateData?: string;
+  clientKeyData?: string;
+  expiresAt: number;
+}
+
+const execCache = new Map<string, ExecCredential>();
+
+function runExecPlugin(exec: ExecConfig, server: string): Promise<string> {
+  const apiVersion = exec.apiVersion ?? 'client.authentication.k8s.io/v1beta1';
+  const env = { ...process.env };
+  for (const { name, value } of exec.env ?? []) env[name] = value;
+  env.KUBERNETES_EXEC_INFO = JSON.stringify({
+    apiVersion,
+    kind: 'ExecCredential',
+    spec: { cluster: { server }, interactive: false },
+  });
+  return new Promise((resolvePromise, reject) => {
+    // Plugins print progress to stderr, so only the exit code signals failure
+    execFile(
+      exec.command,
+      exec.args ?? [],
+      { env, timeout: 60_000 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(
+            new Error(
+              `exec plugin ${exec.command} failed: ${stderr.trim() || error.message}`
+            )
+          );
+        } else {
+          resolvePromise(stdout);
+        }
+      }
+    );
+  });
+}
+
+async function execCredential(
+  exec: ExecConfig,
+  server: string
+): Promise<ExecCredential> {
+  const key = JSON.stringify([exec, server]);
+  const cached = execCache.get(key);
+  if (cached && cached.expiresAt - EXPIRY_MARGIN_MS > Date.now()) return cached;
+  const out = await runExecPlugin(exec, server);
+  let status: {
+    token?: string;
+    clientCertificateData?: string;
+    clientKeyData?: string;
+    expirationTimestamp?: string;
+  };
+  try {
+    status = JSON.parse(out).status ?? {};
+  } catch {
+    throw new Error(`exec plugin ${exec.command} returned invalid JSON`);
+  }
+  const credential: ExecCredential = {
+    token: status.token,
+    clientCertificateData: status.clientCertificateData,
+    clientKeyData: status.clientKeyData,
+    expiresAt: status.expirationTimestamp
+      ? Date.parse(status.expirationTimestamp)
+      : Infinity,
+  };
+  execCache.set(key, credential);
+  return credential;
+}
+
+/** Service account credentials of a pod, when running inside a cluster. */
+function inClusterConnection(): ClusterConnection | null {
+  const { KUBERNETES_SERVICE_HOST: host, KUBERNETES_SERVICE_PORT: port } =
+    process.env;
+  const tokenPath = join(SERVICE_ACCOUNT_DIR, 'token');
+  if (!host || !existsSync(tokenPath)) return null;
+  const caPath = join(SERVICE_ACCOUNT_DIR, 'ca.crt');
+  const hostPart = host.includes(':') ? `[${host}]` : host;
+  return {
+    server: `https://${hostPart}:${port ?? 443}`,
+    tls: existsSync(caPath) ? { ca: readFileSync(caPath) } : {},
+    // The token is rotated on disk, so it is read on every connection
+    headers: {
+      Authorization: `Bearer ${readFileSync(tokenPath, 'utf8').trim()}`,
+    },
+  };
+}
+
+/**
+ * Resolve the server, TLS options and auth headers of a context (the
+ * current context when none is given). Exec plugins run on first use and
+ * again once their credentials expire.
+ */
+export async function clusterConnection(
+  kube: KubeTarget = {}
+): Promise<ClusterConnection> {
+  const config = loadKubeconfig(kube.kubeconfig);
+  const contextName = kube.context ?? config.currentContext;
+  if (!contextName) {
+    const inCluster = !kube.kubeconfig && inClusterConnection();
+    if (inCluster) return inCluster;
+    throw new Error(
+      'No Kubernetes context: set current-context in the kubeconfig or pass a context'
+    );
+  }
+  const context = config.contexts.find((c) => c.name === contextName)?.value;
+  if (!context) throw new Error(`context "${contextName}" does not exist`);
+  const cluster = config.clusters.find(
+    (c) => c.name === context.cluster
+  )?.value;
+  if (!cluster?.server) {
+    throw new Error(`cluster "${context.cluster}" has no server`);
+  }
+  const user = config.users.find((u) => u.name === context.user)?.value ?? {};
+  const server = cluster.server.replace(/\/+$/, '');
+
+  const tls: ConnectionOptions = {};
+  if (cluster['certificate-authority-data']) {
+    tls.ca = decode(cluster['certificate-authority-data']);
+  } else if (cluster['certificate-authority']) {
+    tls.ca = readFileSync(cluster['certificate-authority']);
+  }
+  if (cluster['insecure-skip-tls-verify']) tls.rejectUnauthorized = false;
+  if (cluster['tls-server-name']) tls.servername = cluster['tls-server-name'];
+  if (user['client-certificate-data']) {
+    tls.cert = decode(user['client-certificate-data']);
+  } else if (user['client-certificate']) {
+    tls.cert = readFileSync(user['client-certificate']);
+  }
+  if (user['client-key-data']) {
+    tls.key = decode(user['client-key-data']);
+  } else if (user['client-key']) {
+    tls.key = readFileSync(user['client-key']);
+  }
+
+  const headers: Record<string, string> = {};
+  let token = user.token;
+  if (!token && user.tokenFile) {
+    token = readFileSync(user.tokenFile, 'utf8').trim();
+  }
+  if (!token && user['auth-provider']?.config?.['id-token']) {
+    token = user['auth-provider'].config['id-token'];
+  }
+  if (user.exec) {
+    const credential = await execCredential(user.exec, server);
+    token = credential.token ?? token;
+    if (credential.clientCertificateData && credential.clientKeyData) {
+      tls.cert = credential.clientCertificateData;
+      tls.key = credential.clientKeyData;
+    }
+  }
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  } else if (user.username && user.password != null) {
+    headers.Authorization = `Basic ${Buffer.from(`${user.username}:${user.password}`).toString('base64')}`;
+  }
+  return { server, tls, headers };
+}
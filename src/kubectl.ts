@@ -0,0 +1,160 @@
+import { execFile, spawn } from 'node:child_process';
+
+import type {
+  BackendProcess,
+  K8sBackend,
+  PortForwardRequest,
+} from './backend.js';
+import type {
+  K8sList,
+  K8sObjectMeta,
+  K8sPod,
+  K8sService,
+  KubeTarget,
+} from './k8s.js';
+
+/**
+ * Run a program with an argv array (no shell, so arguments are never
+ * interpreted) and return stdout; reject on exit code or stderr.
+ */
+export function execPromise(file: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // Large clusters produce multi-megabyte `-o json` output
+    execFile(
+      file,
+      args,
+      { maxBuffer: 64 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(error);
+        } else if (stderr && stderr.trim()) {
+          reject(new Error(stderr));
+        } else {
+          resolve(stdout ?? '');
+        }
+      }
+    );
+  });
+}
+
+/** Global kubectl flags selecting the context/kubeconfig of a target. */
+export function kubectlTargetArgs(kube: KubeTarget = {}): string[] {
+  const args: string[] = [];
+  if (kube.kubeconfig) args.push('--kubeconfig', kube.kubeconfig);
+  if (kube.context) args.push('--context', kube.context);
+  return args;
+}
+
+/** Arguments of the `kubectl port-forward` equivalent to a forward request. */
+export function portForwardArgs(request: PortForwardRequest): string[] {
+  return [
+    ...kubectlTargetArgs(request),
+    'port-forward',
+    '--namespace',
+    request.namespace,
+    ...(request.address ? ['--address', request.address] : []),
+    request.targetRef,
+    `${request.localPort}:${request.remotePort}`,
+  ];
+}
+
+/** Run kubectl against a target cluster. */
+function kubectl(args: string[], kube?: KubeTarget): Promise<string> {
+  return execPromise('kubectl', [...kubectlTargetArgs(kube), ...args]);
+}
+
+/** Run a read-only kubectl command with `-o json` and parse the result. */
+async function kubectlJson<T>(args: string[], kube?: KubeTarget): Promise<T> {
+  const out = await kubectl([...args, '-o', 'json'], kube);
+  return JSON.parse(out) as T;
+}
+
+function spawnKubectl(args: string[]): BackendProcess {
+  return spawn('kubectl', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+/** Backend that runs the kubectl binary for every operation. */
+export const kubectlBackend: K8sBackend = {
+  name: 'kubectl',
+
+  async getContexts(kubeconfig) {
+    const out = await kubectl(['config', 'get-contexts', '-o', 'name'], {
+      kubeconfig,
+    });
+    let current: string | null = null;
+    try {
+      current =
+        (await kubectl(['config', 'current-context'], { kubeconfig })).trim() ||
+        null;
+    } catch {
+      // no current context set
+    }
+    return { contexts: out.trim() ? out.trim().split(/\s+/) : [], current };
+  },
+
+  async getNamespaces(kube) {
+    const list = await kubectlJson<K8sList<{ metadata: K8sObjectMeta }>>(
+      ['get', 'namespaces'],
+      kube
+    );
+    return list.items.map((ns) => ns.metadata.name);
+  },
+
+  async getPods(namespace, kube, labelSelector) {
+    const args = namespace
+      ? ['get', 'pods', '--namespace', namespace]
+      : ['get', 'pods', '--all-namespaces'];
+    if (labelSelector) args.push('--selector', labelSelector);
+    const list = await kubectlJson<K8sList<K8sPod>>(args, kube);
+    return list.items;
+  },
+
+  getPod(namespace, name, kube) {
+    return kubectlJson<K8sPod>(
+      ['get', 'pod', '--namespace', namespace, name],
+      kube
+    );
+  },
+
+  async getService(namespace, name, kube) {
+    try {
+      return await kubectlJson<K8sService>(
+        ['get', 'service', '--namespace', namespace, name],
+        kube
+      );
+    } catch (err) {
+      if (err instanceof Error && /\(NotFound\)/.test(err.message)) return null;
+      throw err;
+    }
+  },
+
+  getLogs(namespace, ref, options, kube) {
+    const args = ['logs', '--namespace', namespace, ref];
+    if (options.tail != null) args.push(`--tail=${options.tail}`);
+    if (options.since) args.push(`--since=${options.since}`);
+    if (options.container) args.push('--container', options.container);
+    if (options.previous) args.push('--previous');
+    if (options.timestamps) args.push('--timestamps');
+    return kubectl(args, kube);
+  },
+
+  streamLogs(namespace, ref, options, kube) {
+    const args = [
+      ...kubectlTargetArgs(kube),
+      'logs',
+      '--namespace',
+      namespace,
+      ref,
+      '-f',
+    ];
+    if (options.container) args.push('--container', options.container);
+    if (options.timestamps) args.push('--timestamps');
+    if (options.sinceTime) args.push(`--since-time=${options.sinceTime}`);
+    else if (options.tail != null) args.push(`--tail=${options.tail}`);
+    return spawnKubectl(args);
+  },
+
+  portForward(request) {
+    return spawnKubectl(portForwardArgs(request));
+  },
+};
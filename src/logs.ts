@@ -0,0 +1,299 @@
+import {
+  getBackend,
+  type BackendProcess,
+  type LogStreamOptions,
+} from './backend.js';
+import { getServicePodNames, type KubeTarget } from './k8s.js';
+
+export const LOGS_MODES = ['single', 'all-pods'] as const;
+
+export type LogsMode = (typeof LOGS_MODES)[number];
+
+/** What a follower needs to know about the forward whose logs it streams. */
+export interface LogSource extends KubeTarget {
+  label: string;
+  namespace: string;
+  targetRef: string;
+  /** Workload (full service name) whose pods are followed in all-pods mode. */
+  workload: string;
+  /** "single" follows targetRef; "all-pods" every Running pod of the service. */
+  logsMode?: LogsMode;
+  /** Label selector used instead of the workload in all-pods mode. */
+  logsSelector?: string;
+  /** Container to follow in multi-container pods. */
+  container?: string;
+}
+
+export interface LogSink {
+  write(line: string): void;
+  /** Called when the follower stops. */
+  close?(): void;
+}
+
+export interface LogFollower {
+  /** Shared with the forward, so pod re-resolution is picked up on restart. */
+  source: LogSource;
+  /** Running log streams, keyed by the pod or resource they follow. */
+  streams: Map<string, BackendProcess>;
+  /** Last LOG_BUFFER_LINES log lines, oldest first (all-pods: "[pod] line" in timestamp order). */
+  lines: string[];
+  /** Timestamps parallel to lines; only kept in all-pods mode. */
+  times: string[];
+  /** Last timestamp seen per pod, so a re-followed pod resumes without duplicates. */
+  lastSeen: Map<string, string>;
+  /** Extra consumers of new lines (e.g. the file log viewer). */
+  sinks: LogSink[];
+  stopped: boolean;
+  failures: number;
+  /** Single-mode restart or all-pods discovery timer. */
+  timer: NodeJS.Timeout | null;
+}
+
+const LOG_BUFFER_LINES = 2000;
+const INITIAL_TAIL_LINES = 200;
+const RESTART_DELAY_MS = 2000;
+const MAX_QUICK_FAILURES = 5;
+// A log stream shorter than this counts as a failure
+const QUICK_FAILURE_MS = 5000;
+// How often all-pods followers look for new pods (e.g. during rollouts)
+const POD_DISCOVERY_INTERVAL_MS = 10_000;
+
+// Timestamped logs prefix each line with an RFC3339 timestamp
+const TIMESTAMPED_LINE = /^(\d{4}-\d{2}-\d{2}T\S+) (.*)$/;
+
+// Followers keyed by forward label
+const followers = new Map<string, LogFollower>();
+
+export function getLogFollower(label: string): LogFollower | undefined {
+  return followers.get(label);
+}
+
+function trim(f: LogFollower): void {
+  const excess = f.lines.length - LOG_BUFFER_LINES;
+  if (excess > 0) {
+    f.lines.splice(0, excess);
+    if (f.times.length > 0) f.times.splice(0, excess);
+  }
+}
+
+function emit(f: LogFollower, line: string): void {
+  for (const sink of f.sinks) {
+    try {
+      sink.write(line);
+    } catch {
+      // a failing sink must not stop log collection
+    }
+  }
+}
+
+/** Insert a line keeping the buffer in timestamp order (lines mostly arrive in order). */
+function insertByTime(f: LogFollower, time: string, line: string): void {
+  let lo = 0;
+  let hi = f.times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (f.times[mid] <= time) lo = mid + 1;
+    else hi = mid;
+  }
+  f.times.splice(lo, 0, time);
+  f.lines.splice(lo, 0, line);
+  trim(f);
+}
+
+/**
+ * Follow the logs of one resource and feed complete lines to onLine.
+ * onExit receives whether the run ended quickly (likely a failure).
+ */
+function streamLogs(
+  f: LogFollower,
+  ref: string,
+  options: LogStreamOptions,
+  onLine: (line: string) => void,
+  onExit: (quick: boolean) => void
+): void {
+  const startedAt = Date.now();
+  const p = getBackend().streamLogs(f.source.namespace, ref, options, f.source);
+  f.streams.set(ref, p);
+
+  // Lines can be split across chunks; only emit complete ones
+  let partial = '';
+  p.stdout?.on('data', (data: Buffer) => {
+    const text = partial + data.toString();
+    const lines = text.split('\n');
+    partial = lines.pop() ?? '';
+    lines.forEach(onLine);
+  });
+  p.stderr?.on('data', (data: Buffer) => {
+    process.stderr.write(`[${f.source.label} logs] ${data.toString()}`);
+  });
+
+  let exited = false;
+  const handleExit = () => {
+    if (exited) return;
+    exited = true;
+    if (partial) onLine(partial);
+    if (f.streams.get(ref) === p) f.streams.delete(ref);
+    if (!f.stopped) onExit(Date.now() - startedAt < QUICK_FAILURE_MS);
+  };
+  p.on('error', handleExit);
+  p.on('close', handleExit);
+}
+
+function followSingle(f: LogFollower, sinceTime?: string): void {
+  streamLogs(
+    f,
+    f.source.targetRef,
+    { sinceTime, tail: INITIAL_TAIL_LINES, container: f.source.container },
+    (line) => {
+      f.lines.push(line);
+      trim(f);
+      emit(f, line);
+    },
+    (quick) => {
+      f.failures = quick ? f.failures + 1 : 0;
+      if (f.failures >= MAX_QUICK_FAILURES) {
+        process.stderr.write(
+          `[${f.source.label} logs] giving up after ${MAX_QUICK_FAILURES} failed attempts\n`
+        );
+        return;
+      }
+      // Pick up where we left off, possibly on a re-resolved pod
+      const resumeFrom = new Date().toISOString();
+      f.timer = setTimeout(() => {
+        f.timer = null;
+        if (!f.stopped) followSingle(f, resumeFrom);
+      }, RESTART_DELAY_MS);
+    }
+  );
+}
+
+function followPod(f: LogFollower, pod: string): void {
+  const since = f.lastSeen.get(pod);
+  streamLogs(
+    f,
+    pod,
+    {
+      timestamps: true,
+      sinceTime: since,
+      tail: INITIAL_TAIL_LINES,
+      container: f.source.container,
+    },
+    (line) => {
+      const match = TIMESTAMPED_LINE.exec(line);
+      if (!match) return;
+      const [, time, text] = match;
+      // --since-time is inclusive; skip lines we already have
+      if (since && time <= since) return;
+      f.lastSeen.set(pod, time);
+      insertByTime(f, time, `[${pod}] ${text}`);
+      emit(f, `[${pod}] ${text}`);
+    },
+    // Pods that went away are dropped; discovery re-follows them if still Running
+    () => undefined
+  );
+}
+
+async function discoverPods(f: LogFollower): Promise<void> {
+  const { source } = f;
+  try {
+    const pods = await getServicePodNames(
+      source.namespace,
+      source.workload,
+      source,
+      source.logsSelector
+    );
+    for (const pod of pods) {
+      if (!f.stopped && !f.streams.has(pod)) followPod(f, pod);
+    }
+  } catch (err) {
+    process.stderr.write(
+      `[${source.label} logs] pod discovery failed: ${err instanceof Error ? err.message : err}\n`
+    );
+  }
+  if (!f.stopped) {
+    f.timer = setTimeout(() => {
+      f.timer = null;
+      void discoverPods(f);
+    }, POD_DISCOVERY_INTERVAL_MS);
+  }
+}
+
+/** Stream logs for a forward into an in-process ring buffer. */
+export function followLogs(source: LogSource): LogFollower {
+  stopFollowingLogs(source.label);
+  const f: LogFollower = {
+    source,
+    streams: new Map(),
+    lines: [],
+    times: [],
+    lastSeen: new Map(),
+    sinks: [],
+    stopped: false,
+    failures: 0,
+    timer: null,
+  };
+  followers.set(source.label, f);
+  if (source.logsMode === 'all-pods') {
+    void discoverPods(f);
+  } else {
+    followSingle(f);
+  }
+  return f;
+}
+
+export function stopFollowingLogs(label: string): void {
+  const f = followers.get(label);
+  if (!f) return;
+  f.stopped = true;
+  if (f.timer) clearTimeout(f.timer);
+  for (const p of f.streams.values()) {
+    try {
+      p.kill();
+    } catch {
+      // ignore
+    }
+  }
+  for (const sink of f.sinks) sink.close?.();
+  followers.delete(label);
+}
+
+/** Stop every follower (when the server exits). */
+export function stopAllLogFollowers(): void {
+  for (const label of [...followers.keys()]) stopFollowingLogs(label);
+}
+
+/**
+ * Merge `kubectl logs --timestamps` output of several pods into one list of
+ * "[pod] line" entries in timestamp order.
+ */
+export function mergePodLogs(
+  outputs: { pod: string; output: string }[]
+): string[] {
+  const entries: { time: string; line: string }[] = [];
+  for (const { pod, output } of outputs) {
+    for (const raw of output.split('\n')) {
+      const match = TIMESTAMPED_LINE.exec(raw);
+      if (match) entries.push({ time: match[1], line: `[${pod}] ${match[2]}` });
+    }
+  }
+  // Array.prototype.sort is stable, so lines with equal timestamps keep pod order
+  entries.sort((a, b) => (a.time < b.time ? -1 : a.time > b.time ? 1 : 0));
+  return entries.map((e) => e.line);
+}
+
+/**
+ * Build a line filter from a grep argument: a case-insensitive regex, or a
+ * plain substring match when it is not a valid regex.
+ */
+export function lineFilter(
+  grep: string | undefined
+): (line: string) => boolean {
+  if (!grep) return () => true;
+  try {
+    const pattern = new RegExp(grep, 'i');
+    return (line) => pattern.test(line);
+  } catch {
+    const needle = grep.toLowerCase();
+    return (line) => line.toLowerCase().includes(needle);
+  }
+}
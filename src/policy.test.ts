@@ -0,0 +1,125 @@
+import assert from 'node:assert/strict';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { before, describe, it } from 'node:test';
+
+import type { PolicyConfig } from './config.js';
+import {
+  evaluatePolicy,
+  policyUsesContexts,
+  type PolicySubject,
+} from './policy.js';
+
+function subject(overrides: Partial<PolicySubject> = {}): PolicySubject {
+  return {
+    serviceName: 'b2b-ecommerce',
+    workload: 'dev-b2b-ecommerce',
+    environment: 'dev',
+    namespace: 'shop',
+    ...overrides,
+  };
+}
+
+before(() => {
+  // No config file, so getConfig uses the default policy
+  process.env.K8S_PORT_FORWARD_CONFIG = join(tmpdir(), 'no-such-config.json');
+});
+
+describe('default policy', () => {
+  it('allows ordinary forwards', () => {
+    assert.deepEqual(evaluatePolicy(subject()), {
+      effect: 'allow',
+      rule: 'defaultEffect',
+      matched: 'no rule matched',
+    });
+  });
+
+  it('denies system namespaces', () => {
+    const decision = evaluatePolicy(subject({ namespace: 'kube-system' }));
+    assert.equal(decision.effect, 'deny');
+    assert.equal(decision.rule, 'system-namespaces');
+    assert.equal(decision.reason, 'cluster system namespaces are off limits');
+  });
+
+  it('asks for confirmation in production', () => {
+    const decision = evaluatePolicy(subject({ environment: 'prod' }));
+    assert.equal(decision.effect, 'confirm');
+    assert.equal(decision.rule, 'production');
+  });
+});
+
+describe('evaluatePolicy', () => {
+  const policy: PolicyConfig = {
+    rules: [
+      { effect: 'allow', services: ['payments-sandbox'] },
+      {
+        name: 'payments',
+        effect: 'deny',
+        services: ['payments*'],
+        namespaces: ['pay-*'],
+        reason: 'card data',
+      },
+      { name: 'staging', effect: 'confirm', contexts: ['*-staging'] },
+    ],
+    defaultEffect: 'deny',
+  };
+
+  it('applies the first matching rule', () => {
+    const decision = evaluatePolicy(
+      subject({ serviceName: 'payments-sandbox', namespace: 'pay-eu' }),
+      policy
+    );
+    assert.deepEqual(decision, {
+      effect: 'allow',
+      rule: 'rules[0]',
+      matched: 'services: payments-sandbox',
+      reason: undefined,
+    });
+  });
+
+  it('requires every list of a rule to match, with wildcards', () => {
+    const payments = subject({
+      serviceName: 'api',
+      workload: 'payments-api',
+      namespace: 'pay-eu',
+    });
+    assert.deepEqual(evaluatePolicy(payments, policy), {
+      effect: 'deny',
+      rule: 'payments',
+      matched: 'namespaces: pay-*; services: payments*',
+      reason: 'card data',
+    });
+    assert.equal(
+      evaluatePolicy({ ...payments, namespace: 'shop' }, policy).rule,
+      'defaultEffect'
+    );
+  });
+
+  it('matches contexts and falls back to the default effect', () => {
+    assert.equal(
+      evaluatePolicy(subject({ context: 'eu-staging' }), policy).effect,
+      'confirm'
+    );
+    assert.equal(evaluatePolicy(subject(), policy).effect, 'deny');
+  });
+
+  it('treats pattern characters other than * literally', () => {
+    const dotted: PolicyConfig = {
+      rules: [{ effect: 'deny', namespaces: ['a.b'] }],
+      defaultEffect: 'allow',
+    };
+    assert.equal(
+      evaluatePolicy(subject({ namespace: 'axb' }), dotted).effect,
+      'allow'
+    );
+    assert.equal(
+      evaluatePolicy(subject({ namespace: 'a.b' }), dotted).effect,
+      'deny'
+    );
+  });
+
+  it('reports whether any rule needs the context name', () => {
+    assert.equal(policyUsesContexts(policy), true);
+    assert.equal(policyUsesContexts(), false);
+  });
+});
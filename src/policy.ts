@@ -0,0 +1,98 @@
+import {
+  getConfig,
+  type PolicyConfig,
+  type PolicyEffect,
+  type PolicyRule,
+} from './config.js';
+
+/** The resolved forward a policy decision is made for. */
+export interface PolicySubject {
+  /** Short service name as requested. */
+  serviceName: string;
+  /** Full workload name. */
+  workload: string;
+  environment: string;
+  namespace: string;
+  /** Context name; the current context when the request did not set one. */
+  context?: string;
+}
+
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  /** Name of the matching rule, or "defaultEffect" when none matched. */
+  rule: string;
+  /** Human-readable description of what the rule matches. */
+  matched: string;
+  reason?: string;
+}
+
+/** Match a value against a pattern where "*" stands for any run of characters. */
+function matchesPattern(pattern: string, value: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(value);
+}
+
+function matchesList(
+  patterns: string[] | undefined,
+  values: (string | undefined)[]
+): boolean {
+  if (!patterns) return true;
+  return values.some(
+    (v) => v != null && patterns.some((p) => matchesPattern(p, v))
+  );
+}
+
+function ruleMatches(rule: PolicyRule, subject: PolicySubject): boolean {
+  return (
+    matchesList(rule.environments, [subject.environment]) &&
+    matchesList(rule.namespaces, [subject.namespace]) &&
+    matchesList(rule.contexts, [subject.context]) &&
+    matchesList(rule.services, [subject.serviceName, subject.workload])
+  );
+}
+
+function describeRule(rule: PolicyRule): string {
+  const parts = (
+    [
+      ['environments', rule.environments],
+      ['namespaces', rule.namespaces],
+      ['contexts', rule.contexts],
+      ['services', rule.services],
+    ] as const
+  )
+    .filter(([, values]) => values)
+    .map(([key, values]) => `${key}: ${values!.join(', ')}`);
+  return parts.length > 0 ? parts.join('; ') : 'everything';
+}
+
+/** Whether any rule depends on the context name (callers then resolve the current one). */
+export function policyUsesContexts(
+  policy: PolicyConfig = getConfig().policy
+): boolean {
+  return policy.rules.some((rule) => rule.contexts);
+}
+
+/** Decide whether a forward may start: the first matching rule wins. */
+export function evaluatePolicy(
+  subject: PolicySubject,
+  policy: PolicyConfig = getConfig().policy
+): PolicyDecision {
+  const index = policy.rules.findIndex((rule) => ruleMatches(rule, subject));
+  if (index === -1) {
+    return {
+      effect: policy.defaultEffect,
+      rule: 'defaultEffect',
+      matched: 'no rule matched',
+    };
+  }
+  const rule = policy.rules[index];
+  return {
+    effect: rule.effect,
+    rule: rule.name ?? `rules[${index}]`,
+    matched: describeRule(rule),
+    reason: rule.reason,
+  };
+}
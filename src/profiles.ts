@@ -0,0 +1,145 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+
+import { configDir } from './config.js';
+
+export const PROFILE_SCOPES = ['user', 'project'] as const;
+
+export type ProfileScope = (typeof PROFILE_SCOPES)[number];
+
+// Also keeps names like "__proto__" out of the profiles object
+export const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+const YAML_FILE = /\.ya?ml$/i;
+
+/** A saved set of start_k8s_port_forward service configs. */
+export interface Profile {
+  description?: string;
+  services: Record<string, unknown>[];
+  updatedAt?: string;
+}
+
+interface ProfilesFile {
+  profiles: Record<string, Profile>;
+}
+
+export interface ProfileEntry {
+  name: string;
+  scope: ProfileScope;
+  path: string;
+  profile: Profile;
+}
+
+/** The first existing file of a base name as .json, .yaml or .yml (default: .json). */
+function existingProfilesFile(base: string): string {
+  return (
+    ['.json', '.yaml', '.yml']
+      .map((ext) => `${base}${ext}`)
+      .find((path) => existsSync(path)) ?? `${base}.json`
+  );
+}
+
+/**
+ * Where profiles of a scope are stored. "user" lives in the config dir;
+ * "project" is a file in the working directory that can be checked in.
+ * Files ending in .yaml or .yml are read and written as YAML, others as JSON.
+ */
+export function profilesFilePath(scope: ProfileScope): string {
+  if (scope === 'project') {
+    return (
+      process.env.K8S_PORT_FORWARD_PROJECT_PROFILES ??
+      existingProfilesFile(join(process.cwd(), '.k8s-port-forward-profiles'))
+    );
+  }
+  return existingProfilesFile(join(configDir(), 'profiles'));
+}
+
+async function readProfiles(scope: ProfileScope): Promise<ProfilesFile> {
+  const path = profilesFilePath(scope);
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf8');
+  } catch {
+    return { profiles: {} };
+  }
+  try {
+    const parsed = (
+      YAML_FILE.test(path) ? parseYaml(raw) : JSON.parse(raw)
+    ) as Partial<ProfilesFile> | null;
+    // No prototype, so only names saved in the file resolve
+    const profiles: Record<string, Profile> = Object.create(null);
+    return { profiles: Object.assign(profiles, parsed?.profiles) };
+  } catch (err) {
+    throw new Error(
+      `Invalid profiles file ${path}: ${err instanceof Error ? err.message : err}`
+    );
+  }
+}
+
+async function writeProfiles(
+  scope: ProfileScope,
+  file: ProfilesFile
+): Promise<void> {
+  const path = profilesFilePath(scope);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(
+    path,
+    YAML_FILE.test(path)
+      ? stringifyYaml(file)
+      : `${JSON.stringify(file, null, 2)}\n`,
+    'utf8'
+  );
+}
+
+/** All profiles; project profiles come first and shadow user ones by name. */
+export async function listProfiles(): Promise<ProfileEntry[]> {
+  const entries: ProfileEntry[] = [];
+  for (const scope of ['project', 'user'] as const) {
+    const { profiles } = await readProfiles(scope);
+    for (const [name, profile] of Object.entries(profiles)) {
+      entries.push({ name, scope, path: profilesFilePath(scope), profile });
+    }
+  }
+  return entries;
+}
+
+export async function getProfile(
+  name: string,
+  scope?: ProfileScope
+): Promise<ProfileEntry | null> {
+  const entries = await listProfiles();
+  return (
+    entries.find((e) => e.name === name && (!scope || e.scope === scope)) ??
+    null
+  );
+}
+
+export async function saveProfile(
+  name: string,
+  profile: Profile,
+  scope: ProfileScope
+): Promise<string> {
+  const file = await readProfiles(scope);
+  file.profiles[name] = { ...profile, updatedAt: new Date().toISOString() };
+  await writeProfiles(scope, file);
+  return profilesFilePath(scope);
+}
+
+/** Delete a profile; returns the scope it was removed from, or null if not found. */
+export async function deleteProfile(
+  name: string,
+  scope?: ProfileScope
+): Promise<ProfileScope | null> {
+  for (const s of scope ? [scope] : (['project', 'user'] as const)) {
+    const file = await readProfiles(s);
+    if (Object.hasOwn(file.profiles, name)) {
+      delete file.profiles[name];
+      await writeProfiles(s, file);
+      return s;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,176 @@
+import { connect, createServer, type Server, type Socket } from 'node:net';
+
+import { LOOPBACK_ADDRESS } from './util.js';
+
+export interface ProxyStats {
+  /** Connections accepted since the proxy started. */
+  connections: number;
+  activeConnections: number;
+  /** Bytes sent by local clients towards the pod. */
+  bytesIn: number;
+  /** Bytes the pod sent back to local clients. */
+  bytesOut: number;
+  /** Connections that ended with an error (e.g. while the port-forward restarted). */
+  errors: number;
+  lastError?: string;
+  lastErrorAt?: Date;
+  lastConnectionAt?: Date;
+  /** HTTP requests seen, including those dropped from the ring buffer. */
+  httpRequests: number;
+}
+
+/** Request line and status of one HTTP/1.x exchange. */
+export interface HttpExchange {
+  startedAt: Date;
+  method: string;
+  path: string;
+  /** Missing while the response is outstanding (or never came). */
+  status?: number;
+  durationMs?: number;
+}
+
+/** A local TCP proxy in front of the port the port-forward binds. */
+export interface TrafficProxy {
+  listenPort: number;
+  targetPort: number;
+  server: Server;
+  listening: boolean;
+  /** Why the proxy could not listen, if it failed to. */
+  error?: string;
+  stats: ProxyStats;
+  /** Last HTTP_BUFFER_SIZE HTTP exchanges, oldest first. */
+  http: HttpExchange[];
+  sockets: Set<Socket>;
+}
+
+const HTTP_BUFFER_SIZE = 50;
+
+// Only chunks that start a message are inspected, so this is best effort:
+// pipelined requests in one chunk count once and TLS traffic is not decoded
+const REQUEST_LINE =
+  /^(GET|HEAD|POST|PUT|PATCH|DELETE|OPTIONS|TRACE|CONNECT) (\S+) HTTP\/1\.[01]\r?\n/;
+const STATUS_LINE = /^HTTP\/1\.[01] (\d{3})/;
+
+function recordError(proxy: TrafficProxy, err: Error): void {
+  proxy.stats.errors++;
+  proxy.stats.lastError = err.message;
+  proxy.stats.lastErrorAt = new Date();
+}
+
+function handleConnection(proxy: TrafficProxy, client: Socket): void {
+  const { stats } = proxy;
+  stats.connections++;
+  stats.activeConnections++;
+  stats.lastConnectionAt = new Date();
+  proxy.sockets.add(client);
+
+  const upstream = connect({ port: proxy.targetPort, host: LOOPBACK_ADDRESS });
+  proxy.sockets.add(upstream);
+  // Requests of this connection still waiting for a response, oldest first
+  const pending: HttpExchange[] = [];
+  // Decided by the first chunk from the client; non-HTTP traffic is only counted
+  let isHttp: boolean | undefined;
+
+  client.on('data', (chunk: Buffer) => {
+    stats.bytesIn += chunk.length;
+    const head = chunk.subarray(0, 2048).toString('latin1');
+    const request = isHttp !== false ? REQUEST_LINE.exec(head) : null;
+    isHttp ??= request != null;
+    if (!request) return;
+    const exchange: HttpExchange = {
+      startedAt: new Date(),
+      method: request[1],
+      path: request[2],
+    };
+    stats.httpRequests++;
+    pending.push(exchange);
+    proxy.http.push(exchange);
+    if (proxy.http.length > HTTP_BUFFER_SIZE) {
+      proxy.http.splice(0, proxy.http.length - HTTP_BUFFER_SIZE);
+    }
+  });
+  upstream.on('data', (chunk: Buffer) => {
+    stats.bytesOut += chunk.length;
+    if (!isHttp || pending.length === 0) return;
+    const status = STATUS_LINE.exec(chunk.subarray(0, 32).toString('latin1'));
+    // 1xx responses (e.g. 100 Continue) precede the final one
+    if (!status || status[1].startsWith('1')) return;
+    const exchange = pending.shift()!;
+    exchange.status = Number(status[1]);
+    exchange.durationMs = Date.now() - exchange.startedAt.getTime();
+  });
+  client.pipe(upstream);
+  upstream.pipe(client);
+
+  let failed = false;
+  const fail = (err: Error) => {
+    if (!failed) {
+      failed = true;
+      recordError(proxy, err);
+    }
+    client.destroy();
+    upstream.destroy();
+  };
+  client.on('error', fail);
+  upstream.on('error', fail);
+
+  let closed = 0;
+  const onClose = () => {
+    if (++closed < 2) return;
+    stats.activeConnections--;
+    proxy.sockets.delete(client);
+    proxy.sockets.delete(upstream);
+  };
+  client.on('close', () => {
+    upstream.destroy();
+    onClose();
+  });
+  upstream.on('close', () => {
+    client.destroy();
+    onClose();
+  });
+}
+
+/**
+ * Listen on address:listenPort and pass every connection through to targetPort,
+ * counting connections, bytes and errors and summarizing HTTP/1.x exchanges.
+ */
+export function startProxy(
+  listenPort: number,
+  targetPort: number,
+  address = LOOPBACK_ADDRESS
+): TrafficProxy {
+  const proxy: TrafficProxy = {
+    listenPort,
+    targetPort,
+    server: createServer((client) => handleConnection(proxy, client)),
+    listening: false,
+    stats: {
+      connections: 0,
+      activeConnections: 0,
+      bytesIn: 0,
+      bytesOut: 0,
+      errors: 0,
+      httpRequests: 0,
+    },
+    http: [],
+    sockets: new Set(),
+  };
+  proxy.server.on('listening', () => {
+    proxy.listening = true;
+  });
+  proxy.server.on('error', (err) => {
+    proxy.listening = false;
+    proxy.error = `proxy cannot listen on ${address}:${listenPort}: ${err.message}`;
+  });
+  proxy.server.listen(listenPort, address);
+  return proxy;
+}
+
+/** Stop listening and drop open connections. */
+export function closeProxy(proxy: TrafficProxy): void {
+  proxy.server.close();
+  proxy.listening = false;
+  for (const socket of proxy.sockets) socket.destroy();
+  proxy.sockets.clear();
+}
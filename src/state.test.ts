@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import {
+  readState,
+  updateState,
+  writeState,
+  type ForwardRecord,
+} from './state.js';
+
+let dir: string;
+let file: string;
+
+function record(serverPid: number, localPort: number): ForwardRecord {
+  return {
+    pid: serverPid + 1,
+    serverPid,
+    label: `web:${localPort}`,
+    serviceName: 'web',
+    workload: 'dev-web',
+    namespace: 'default',
+    environment: 'dev',
+    podName: 'dev-web-5d8f9-abc12',
+    target: 'pod',
+    targetRef: 'dev-web-5d8f9-abc12',
+    localPort,
+    remotePort: 8080,
+    startedAt: new Date(0).toISOString(),
+  };
+}
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'k8s-state-'));
+  file = join(dir, 'state.json');
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('updateState', () => {
+  it('changes the records under a lock and releases it', () => {
+    writeState([record(100, 3000)], file);
+    updateState((records) => [...records, record(200, 3001)], file);
+    updateState((records) => records.filter((r) => r.serverPid !== 100), file);
+    assert.deepEqual(readState(file), [record(200, 3001)]);
+  });
+
+  it('waits for the lock of another server and then gives up', () => {
+    writeFileSync(`${file}.lock`, '');
+    try {
+      assert.throws(
+        () => updateState(() => [], file),
+        /state file is locked by another server/
+      );
+      assert.deepEqual(readState(file), [record(200, 3001)]);
+    } finally {
+      rmSync(`${file}.lock`);
+    }
+  });
+
+  it('takes over a lock left by a server that died while writing', () => {
+    writeFileSync(`${file}.lock`, '');
+    const longAgo = new Date(Date.now() - 60_000);
+    utimesSync(`${file}.lock`, longAgo, longAgo);
+    updateState(() => [], file);
+    assert.deepEqual(readState(file), []);
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  closeSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { dirname } from 'node:path';
+
+import { getConfig } from './config.js';
+import type { ForwardTarget, PodSelection } from './k8s.js';
+import { execPromise } from './kubectl.js';
+
+/** A running port-forward as written to the state file. */
+export interface ForwardRecord {
+  /** PID of the kubectl port-forward process. */
+  pid: number;
+  /** PID of the MCP server that owns the forward. */
+  serverPid: number;
+  label: string;
+  serviceName: string;
+  workload: string;
+  namespace: string;
+  environment: string;
+  podName: string;
+  target: ForwardTarget;
+  targetRef: string;
+  localPort: number;
+  address?: string;
+  remotePort: number | string;
+  /** Port kubectl binds when a traffic proxy listens on localPort. */
+  forwardPort?: number;
+  podSelection?: PodSelection;
+  context?: string;
+  kubeconfig?: string;
+  startedAt: string;
+}
+
+interface StateFile {
+  forwards: ForwardRecord[];
+}
+
+export function readState(path = getConfig().state.file): ForwardRecord[] {
+  try {
+    const parsed = JSON.parse(readFileSync(path, 'utf8')) as Partial<StateFile>;
+    return Array.isArray(parsed.forwards) ? parsed.forwards : [];
+  } catch {
+    // Missing or unreadable state means nothing to re-attach
+    return [];
+  }
+}
+
+/** Replace the state file (written to a temp file first so readers never see half of it). */
+export function writeState(
+  records: ForwardRecord[],
+  path = getConfig().state.file
+): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(
+    tmp,
+    `${JSON.stringify({ forwards: records }, null, 2)}\n`,
+    'utf8'
+  );
+  renameSync(tmp, path);
+}
+
+const LOCK_RETRY_MS = 10;
+const LOCK_TIMEOUT_MS = 2000;
+// A lock this old was left by a server that died while writing
+const STALE_LOCK_MS = 10_000;
+
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/** Create the lock file, waiting while another server holds it. */
+function lockState(lock: string): void {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      closeSync(openSync(lock, 'wx'));
+      return;
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'EEXIST') throw err;
+    }
+    try {
+      if (Date.now() - statSync(lock).mtimeMs > STALE_LOCK_MS) {
+        rmSync(lock, { force: true });
+        continue;
+      }
+    } catch {
+      continue; // released meanwhile
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`state file is locked by another server (${lock})`);
+    }
+    sleepSync(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Read, change and write the state file under a lock file, so servers writing
+ * at the same time do not drop each other's records. Synchronous, so it can
+ * run on the way out of the process.
+ */
+export function updateState(
+  update: (records: ForwardRecord[]) => ForwardRecord[],
+  path = getConfig().state.file
+): void {
+  mkdirSync(dirname(path), { recursive: true });
+  const lock = `${path}.lock`;
+  lockState(lock);
+  try {
+    writeState(update(readState(path)), path);
+  } finally {
+    rmSync(lock, { force: true });
+  }
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    // Signal 0 only checks that the process exists
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: it exists but belongs to someone else
+    return (err as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+async function commandLineOf(pid: number): Promise<string> {
+  if (process.platform === 'linux') {
+    return readFileSync(`/proc/${pid}/cmdline`, 'utf8').replace(/\0/g, ' ');
+  }
+  if (process.platform === 'win32') {
+    // tasklist only reports the image name
+    return execPromise('tasklist', [
+      '/FI',
+      `PID eq ${pid}`,
+      '/FO',
+      'CSV',
+      '/NH',
+    ]);
+  }
+  return execPromise('ps', ['-o', 'command=', '-p', String(pid)]);
+}
+
+/**
+ * Whether pid still runs the kubectl port-forward of a record, so a PID that
+ * was reused by an unrelated process is never killed.
+ */
+export async function isRecordedForward(
+  record: ForwardRecord
+): Promise<boolean> {
+  if (!isProcessAlive(record.pid)) return false;
+  try {
+    const commandLine = (await commandLineOf(record.pid)).toLowerCase();
+    if (!commandLine.includes('kubectl')) return false;
+    if (process.platform === 'win32') return true;
+    return (
+      commandLine.includes('port-forward') &&
+      commandLine.includes(
+        `${record.forwardPort ?? record.localPort}:${record.remotePort}`
+      )
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,225 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { WebSocketServer, type WebSocket } from 'ws';
+
+import type { K8sPod, K8sService } from '../k8s.js';
+
+export const FAKE_TOKEN = 'test-token';
+
+/** A portforward stream accepted by the fake server. */
+export interface PortForwardSession {
+  ws: WebSocket;
+  namespace: string;
+  pod: string;
+  port: number;
+  protocol: string;
+}
+
+/**
+ * A minimal Kubernetes API server on localhost for tests: pods, services,
+ * logs, pod watches and the portforward subresource. Tests fill pods and
+ * services and hook the handlers they need.
+ */
+export interface FakeApiServer {
+  server: string;
+  /** Kubeconfig whose current context points at the server. */
+  kubeconfig: string;
+  pods: K8sPod[];
+  services: K8sService[];
+  /** resourceVersion of pod lists. */
+  listVersion: string;
+  /** Every request (and upgrade) received, in order. */
+  requests: URL[];
+  /** Body of GET …/pods/<name>/log; defaults to two lines. */
+  logs: (pod: string, query: URLSearchParams) => string;
+  /** Serves GET /api/v1/pods?watch=true; the default ends it right away. */
+  watch: (res: ServerResponse, query: URLSearchParams) => void;
+  /** Called for each portforward connection once the WebSocket is open. */
+  portForward: (session: PortForwardSession) => void;
+  close(): Promise<void>;
+}
+
+const PORT_FORWARD_PROTOCOL = 'v4.channel.k8s.io';
+
+function json(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function notFound(res: ServerResponse, message: string): void {
+  json(res, 404, { kind: 'Status', reason: 'NotFound', message });
+}
+
+function matchesSelector(pod: K8sPod, selector: string | null): boolean {
+  if (!selector) return true;
+  return selector.split(',').every((term) => {
+    const [key, value] = term.split('=');
+    return pod.metadata.labels?.[key] === value;
+  });
+}
+
+/** A Running, Ready pod with one container exposing the given ports. */
+export function fakePod(
+  name: string,
+  labels: Record<string, string> = {},
+  ports: { name?: string; containerPort: number }[] = []
+): K8sPod {
+  return {
+    metadata: { name, namespace: 'default', labels },
+    spec: { containers: [{ name: 'app', ports }] },
+    status: {
+      phase: 'Running',
+      conditions: [{ type: 'Ready', status: 'True' }],
+    },
+  };
+}
+
+/** Frame a payload for a v4.channel.k8s.io channel. */
+export function channelFrame(channel: number, payload: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([channel]), payload]);
+}
+
+/** The first frame of a portforward channel: the port, little-endian. */
+export function portPrefixFrame(channel: number, port: number): Buffer {
+  const prefix = Buffer.alloc(2);
+  prefix.writeUInt16LE(port);
+  return channelFrame(channel, prefix);
+}
+
+export async function startFakeApiServer(): Promise<FakeApiServer> {
+  const dir = mkdtempSync(join(tmpdir(), 'k8s-fake-api-'));
+  const fake: FakeApiServer = {
+    server: '',
+    kubeconfig: join(dir, 'config'),
+    pods: [],
+    services: [],
+    listVersion: '1',
+    requests: [],
+    logs: (pod) => `${pod} line 1\n${pod} line 2\n`,
+    watch: (res) => res.end(),
+    portForward: ({ ws }) => ws.close(),
+    close: async () => {},
+  };
+
+  const route = (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', fake.server);
+    fake.requests.push(url);
+    if (req.headers.authorization !== `Bearer ${FAKE_TOKEN}`) {
+      json(res, 401, {
+        kind: 'Status',
+        reason: 'Unauthorized',
+        message: 'Unauthorized',
+      });
+      return;
+    }
+    const query = url.searchParams;
+    const path = url.pathname;
+    if (path === '/api/v1/pods' && query.get('watch') === 'true') {
+      res.writeHead(200, { 'content-type': 'application/json' });
+      fake.watch(res, query);
+      return;
+    }
+    const podList = path.match(/^\/api\/v1(?:\/namespaces\/([^/]+))?\/pods$/);
+    if (podList) {
+      const items = fake.pods.filter(
+        (p) =>
+          (!podList[1] || p.metadata.namespace === podList[1]) &&
+          matchesSelector(p, query.get('labelSelector'))
+      );
+      json(res, 200, {
+        metadata: { resourceVersion: fake.listVersion },
+        items,
+      });
+      return;
+    }
+    const pod = path.match(/^\/api\/v1\/namespaces\/([^/]+)\/pods\/([^/]+)$/);
+    if (pod) {
+      const found = fake.pods.find((p) => p.metadata.name === pod[2]);
+      if (found) json(res, 200, found);
+      else notFound(res, `pods "${pod[2]}" not found`);
+      return;
+    }
+    const log = path.match(
+      /^\/api\/v1\/namespaces\/[^/]+\/pods\/([^/]+)\/log$/
+    );
+    if (log) {
+      res.writeHead(200, { 'content-type': 'text/plain' });
+      res.end(fake.logs(log[1], query));
+      return;
+    }
+    const service = path.match(
+      /^\/api\/v1\/namespaces\/[^/]+\/services\/([^/]+)$/
+    );
+    if (service) {
+      const found = fake.services.find((s) => s.metadata.name === service[1]);
+      if (found) json(res, 200, found);
+      else notFound(res, `services "${service[1]}" not found`);
+      return;
+    }
+    notFound(res, 'the server could not find the requested resource');
+  };
+
+  const http = createServer(route);
+  const wss = new WebSocketServer({
+    noServer: true,
+    handleProtocols: (protocols) =>
+      protocols.has(PORT_FORWARD_PROTOCOL) ? PORT_FORWARD_PROTOCOL : false,
+  });
+  http.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url ?? '/', fake.server);
+    fake.requests.push(url);
+    const match = url.pathname.match(
+      /^\/api\/v1\/namespaces\/([^/]+)\/pods\/([^/]+)\/portforward$/
+    );
+    if (!match || !fake.pods.some((p) => p.metadata.name === match[2])) {
+      socket.end(
+        'HTTP/1.1 404 Not Found\r\ncontent-type: application/json\r\n\r\n' +
+          JSON.stringify({
+            kind: 'Status',
+            reason: 'NotFound',
+            message: `pods "${match?.[2]}" not found`,
+          })
+      );
+      return;
+    }
+    wss.handleUpgrade(req, socket, head, (ws) =>
+      fake.portForward({
+        ws,
+        namespace: match[1],
+        pod: match[2],
+        port: Number(url.searchParams.get('ports')),
+        protocol: ws.protocol,
+      })
+    );
+  });
+
+  await new Promise<void>((resolve) => http.listen(0, '127.0.0.1', resolve));
+  fake.server = `http://127.0.0.1:${(http.address() as AddressInfo).port}`;
+  writeFileSync(
+    fake.kubeconfig,
+    JSON.stringify({
+      apiVersion: 'v1',
+      kind: 'Config',
+      'current-context': 'fake',
+      contexts: [{ name: 'fake', context: { cluster: 'fake', user: 'fake' } }],
+      clusters: [{ name: 'fake', cluster: { server: fake.server } }],
+      users: [{ name: 'fake', user: { token: FAKE_TOKEN } }],
+    })
+  );
+  fake.close = async () => {
+    for (const ws of wss.clients) ws.terminate();
+    wss.close();
+    http.closeAllConnections();
+    await new Promise((resolve) => http.close(resolve));
+    rmSync(dir, { recursive: true, force: true });
+  };
+  return fake;
+}
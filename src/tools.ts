@@ -0,0 +1,541 @@
+import { isIP } from 'node:net';
+
+import { z } from 'zod/v4';
+
+import { getConfig } from './config.js';
+import { EXPORT_FORMATS } from './exports.js';
+import { FORWARD_TARGETS, POD_PICKS } from './k8s.js';
+import { LOGS_MODES } from './logs.js';
+import { PROFILE_NAME_PATTERN, PROFILE_SCOPES } from './profiles.js';
+import {
+  isSafeArg,
+  DNS1123_LABEL_PATTERN,
+  DNS1123_SUBDOMAIN_PATTERN,
+} from './util.js';
+
+export const DEFAULT_READY_TIMEOUT_SECONDS = 15;
+export const DEFAULT_LOG_TAIL_LINES = 100;
+export const DEFAULT_HTTP_SUMMARY_LIMIT = 20;
+
+// Relative durations accepted by `kubectl logs --since`
+const SINCE_PATTERN = /^(\d+(ms|s|m|h))+$/;
+
+// AI clients sometimes send numbers as strings ("3000"); accept those too
+const numeric = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(
+    (v) =>
+      typeof v === 'string' && v.trim() !== '' && !Number.isNaN(Number(v))
+        ? Number(v)
+        : v,
+    schema
+  );
+
+const port = numeric(
+  z.number().int().min(1, 'must be 1-65535').max(65535, 'must be 1-65535')
+);
+
+// Names that reach kubectl; see DEVELOPER.md for the rules. Service names are
+// matched case-insensitively, so "Web" is lowercased before it is validated.
+const serviceName = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, 'is required')
+  .max(253)
+  .regex(
+    new RegExp(DNS1123_SUBDOMAIN_PATTERN),
+    "must be a valid Kubernetes name (letters, digits, '-' and '.')"
+  );
+
+const podName = z
+  .string()
+  .max(253)
+  .regex(new RegExp(DNS1123_SUBDOMAIN_PATTERN), 'must be a valid pod name');
+
+const container = z
+  .string()
+  .max(63)
+  .regex(new RegExp(DNS1123_LABEL_PATTERN), 'must be a valid container name');
+
+const namespace = z
+  .string()
+  .max(63)
+  .regex(
+    new RegExp(DNS1123_LABEL_PATTERN),
+    "must be a valid Kubernetes namespace (lowercase letters, digits and '-', at most 63 characters)"
+  );
+
+// Environments come from workload names, namespaces or labels of the naming config
+const environment = z
+  .string()
+  .max(63)
+  .regex(
+    new RegExp(DNS1123_LABEL_PATTERN),
+    "must be a valid environment name (lowercase letters, digits and '-', at most 63 characters)"
+  );
+
+/** Free-form values passed to kubectl as arguments (contexts, paths, selectors). */
+const kubectlArg = z
+  .string()
+  .refine(isSafeArg, "must not start with '-' or contain control characters");
+
+const kubeTargetShape = {
+  context: kubectlArg
+    .optional()
+    .describe(
+      'Optional: kubeconfig context (cluster) to use instead of the current one. Call list_k8s_contexts to see available names.'
+    ),
+  kubeconfig: kubectlArg
+    .optional()
+    .describe('Optional: Path to a kubeconfig file to use.'),
+};
+
+const readyTimeoutSeconds = numeric(z.number().positive())
+  .optional()
+  .describe(
+    `Optional: How long to wait for every forward to accept local connections before reporting (default: ${DEFAULT_READY_TIMEOUT_SECONDS}).`
+  );
+
+const refresh = z
+  .boolean()
+  .optional()
+  .describe(
+    'Optional: Re-list pods instead of using the discovery cache, e.g. right after a deploy (default: false).'
+  );
+
+export const serviceConfigSchema = z.strictObject({
+  serviceName: serviceName.describe(
+    'Short name of the service (e.g. b2b-ecommerce, b2b-ticketing). Call list_k8s_services first to get exact names. A full workload name (dev-b2b-ecommerce), prefix or small typo resolves when it matches one service.'
+  ),
+  namespace: namespace
+    .optional()
+    .describe(
+      "Optional: Namespace to target (e.g. shared-services). Use when the user says 'from shared services namespace'."
+    ),
+  localPort: z
+    .union([port, z.literal('auto')], {
+      error: 'must be a port number (1-65535) or "auto"',
+    })
+    .describe(
+      'Local port to bind (e.g. 3000, 3002), or "auto" to pick a free port from the configured range (the chosen port is returned in the result).'
+    ),
+  address: z
+    .string()
+    .trim()
+    .refine((v) => isIP(v) !== 0, 'must be an IP address (e.g. 0.0.0.0)')
+    .optional()
+    .describe(
+      'Optional: Local address to listen on (default: 127.0.0.1). Use 0.0.0.0 or the Docker bridge address so containers can reach the forward; any non-loopback address also exposes it to that network.'
+    ),
+  remotePort: port
+    .optional()
+    .describe(
+      "Optional: Remote (cluster) port. If omitted, the server maps the Service port to the pod's targetPort/container port (3000 if no ports are found); the result lists the available ports and the one picked."
+    ),
+  remotePortName: z
+    .string()
+    .trim()
+    .max(15)
+    .regex(
+      new RegExp(DNS1123_LABEL_PATTERN),
+      'must be a valid port name (lowercase letters, digits and -)'
+    )
+    .refine((v) => /[a-z]/.test(v), 'must contain a letter')
+    .optional()
+    .describe(
+      'Optional: Named remote port (e.g. http, metrics) to forward to instead of a numeric remotePort. Matched against the Service port names and the container port names.'
+    ),
+  target: z
+    .enum(FORWARD_TARGETS)
+    .optional()
+    .describe(
+      "Optional: What to forward to. 'pod' (default) pins the currently running pod; 'service' (svc/<name>) and 'deployment' (deploy/<name>) let kubectl pick whichever pod backs it."
+    ),
+  environment: environment
+    .optional()
+    .describe(
+      `Optional: Environment (${getConfig().naming.environments.join(', ')}) for resolving the service.`
+    ),
+  podName: podName
+    .optional()
+    .describe(
+      'Optional: Exact pod to forward to (target pod only); must be a Running pod of the service. Call list_k8s_pods to see candidates.'
+    ),
+  labelSelector: kubectlArg
+    .optional()
+    .describe(
+      'Optional: Choose only among the pods of the service matching this label selector (e.g. version=canary; target pod only).'
+    ),
+  pick: z
+    .enum(POD_PICKS)
+    .optional()
+    .describe(
+      "Optional: Which candidate pod to forward to (target pod only): 'ready' (newest Ready pod; default when labelSelector is set), 'newest', 'oldest' or 'random' (Ready pods first). Without podName, labelSelector or pick the discovered pod is used."
+    ),
+  container: container
+    .optional()
+    .describe(
+      'Optional: Container of a multi-container pod (e.g. istio-proxy): its ports are used for remote port detection and its logs are followed.'
+    ),
+  includeLogs: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional: Open logs in a separate window and buffer them for get_k8s_logs (default: true).'
+    ),
+  logsMode: z
+    .enum(LOGS_MODES)
+    .optional()
+    .describe(
+      "Optional: 'single' (default) follows the forwarded pod/resource; 'all-pods' follows every Running pod of the service (or logsSelector), prefixing lines with the pod name in timestamp order and picking up new pods during rollouts."
+    ),
+  logsSelector: kubectlArg
+    .optional()
+    .describe(
+      'Optional: Label selector (e.g. app=checkout) for the pods followed in all-pods mode.'
+    ),
+  proxy: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional: Put a local TCP proxy in front of the forward that counts connections, bytes and errors and records HTTP request summaries; read them with get_port_forward_stats (default: false).'
+    ),
+  confirm: z
+    .boolean()
+    .optional()
+    .describe(
+      'Optional: Confirms a forward that the safety policy marks as needing confirmation (e.g. prod). Only set after the user explicitly agreed to it.'
+    ),
+  ...kubeTargetShape,
+});
+
+export type ServiceConfig = z.infer<typeof serviceConfigSchema>;
+
+export const serviceConfigsSchema = z.array(serviceConfigSchema).min(1);
+
+const profileScope = z
+  .enum(PROFILE_SCOPES)
+  .optional()
+  .describe(
+    "Optional: 'user' (default when saving; stored in the user config dir) or 'project' (a file in the working directory that can be checked into the repo). When omitted for start/delete, project profiles take precedence."
+  );
+
+const profileName = z
+  .string()
+  .trim()
+  .min(1, 'is required')
+  .max(63)
+  .regex(
+    PROFILE_NAME_PATTERN,
+    "must start with a letter or digit and contain only letters, digits, '.', '_' or '-'"
+  );
+
+/** Every tool: its description and the schema its arguments are validated against. */
+export const TOOLS = {
+  start_k8s_port_forward: {
+    description:
+      'Starts port forwarding for one or more Kubernetes services and waits until each forward accepts local connections (or fails). Call list_k8s_services (and optionally list_k8s_namespaces) first to resolve exact service names and namespaces. All port-forwards run in a single session; logs open in separate OS windows when includeLogs is true. Each forward is checked against the safety policy: denied ones are refused, and ones needing confirmation require confirm: true after asking the user.',
+    input: z.strictObject({
+      services: serviceConfigsSchema.describe(
+        'Array of service configs; each can use different localPort, remotePort, namespace.'
+      ),
+      readyTimeoutSeconds,
+      refresh,
+    }),
+  },
+  list_k8s_services: {
+    description:
+      'Retrieves a list of all available Kubernetes services grouped by short name and environment. Use this to find exact service names and namespaces before calling start_k8s_port_forward. Results come from a discovery cache whose age is reported; pass refresh: true to re-list.',
+    input: z.strictObject({
+      namespace: namespace.optional().describe('Optional: Filter by namespace'),
+      refresh,
+      ...kubeTargetShape,
+    }),
+  },
+  list_k8s_pods: {
+    description:
+      'List the pods of a service with phase, readiness, restarts, age and containers, marking the one start_k8s_port_forward picks by default. Use it to choose podName, labelSelector, pick or container.',
+    input: z.strictObject({
+      serviceName: serviceName.describe(
+        'Short name of the service (workload names, prefixes and small typos resolve like in start_k8s_port_forward).'
+      ),
+      namespace: serviceConfigSchema.shape.namespace,
+      environment: serviceConfigSchema.shape.environment,
+      labelSelector: kubectlArg
+        .optional()
+        .describe(
+          'Optional: List only the pods of the service matching this label selector.'
+        ),
+      refresh,
+      ...kubeTargetShape,
+    }),
+  },
+  list_k8s_namespaces: {
+    description: 'List all available Kubernetes namespaces.',
+    input: z.strictObject({ ...kubeTargetShape }),
+  },
+  list_k8s_contexts: {
+    description:
+      'List kubeconfig contexts (clusters) and mark the current one. Pass a context to other tools to target a cluster without switching the global context.',
+    input: z.strictObject({ kubeconfig: kubeTargetShape.kubeconfig }),
+  },
+  list_k8s_port_forwards: {
+    description:
+      'List port-forwards started by this MCP server with their state (starting, ready, failed, exited), pod, ports, PID, restart count and recent kubectl output. Use this to check whether a forward is up and healthy.',
+    input: z.strictObject({}),
+  },
+  stop_k8s_port_forward: {
+    description:
+      'Stop Kubernetes port-forward processes. With no arguments, stops all of them; otherwise stops only the forwards matching every given selector (see list_k8s_port_forwards for labels and ports).',
+    input: z.strictObject({
+      serviceName: z
+        .string()
+        .trim()
+        .optional()
+        .describe('Optional: Short service name to stop.'),
+      label: z
+        .string()
+        .optional()
+        .describe(
+          'Optional: Exact forward label (e.g. dev~b2b-ecommerce:3002).'
+        ),
+      localPort: port
+        .optional()
+        .describe('Optional: Local port of the forward to stop.'),
+      namespace: z
+        .string()
+        .optional()
+        .describe('Optional: Only stop forwards in this namespace.'),
+      environment: z
+        .string()
+        .optional()
+        .describe('Optional: Only stop forwards in this environment.'),
+    }),
+  },
+  get_port_forward_stats: {
+    description:
+      'Traffic statistics of running port-forwards started with proxy: true: connections (total and active), bytes in/out, errors with the last error, and recent HTTP request summaries (method, path, status, duration). Forwards without a proxy are listed without stats.',
+    input: z.strictObject({
+      serviceName: z
+        .string()
+        .trim()
+        .optional()
+        .describe('Optional: Short service name.'),
+      label: z
+        .string()
+        .optional()
+        .describe(
+          'Optional: Exact forward label (see list_k8s_port_forwards).'
+        ),
+      localPort: port
+        .optional()
+        .describe('Optional: Local port of the forward.'),
+      httpLimit: numeric(z.number().int().min(0))
+        .optional()
+        .describe(
+          `Optional: Number of most recent HTTP requests to show per forward (default: ${DEFAULT_HTTP_SUMMARY_LIMIT}).`
+        ),
+    }),
+  },
+  export_port_forwards: {
+    description:
+      'Render the active port-forwards as connection settings for local apps: dotenv or shell export lines (<SERVICE>_URL=http://localhost:<port>), a JSON map of service to URL, docker-compose extra_hosts, or a custom template. Optionally writes the result to a file; dotenv and shell files are updated in place, keeping other variables.',
+    input: z.strictObject({
+      format: z
+        .enum(EXPORT_FORMATS)
+        .optional()
+        .describe(
+          "Optional: 'dotenv' (default), 'shell' (export lines), 'json' (service -> URL), 'docker-compose' (extra_hosts for forwards started with a non-loopback address) or 'template'."
+        ),
+      template: z
+        .string()
+        .optional()
+        .describe(
+          'Required for format template: text rendered once per forward, with placeholders {{name}}, {{NAME}}, {{url}}, {{host}}, {{localPort}}, {{remotePort}}, {{serviceName}}, {{environment}}, {{namespace}}, {{pod}}, {{label}} and {{context}} (e.g. "{{NAME}}_HOST=localhost:{{localPort}}").'
+        ),
+      path: z
+        .string()
+        .trim()
+        .min(1)
+        .optional()
+        .describe(
+          'Optional: File to write the result to, inside the server working directory (relative to it), e.g. .env.local.'
+        ),
+      scheme: z
+        .string()
+        .regex(/^[a-z][a-z0-9+.-]*$/, 'must be a URL scheme like http')
+        .optional()
+        .describe('Optional: URL scheme (default: http).'),
+      host: z
+        .string()
+        .regex(/^[A-Za-z0-9.:[\]-]+$/, 'must be a host name or IP address')
+        .optional()
+        .describe('Optional: Host in the URLs (default: localhost).'),
+      serviceName: z
+        .string()
+        .trim()
+        .optional()
+        .describe('Optional: Only forwards of this short service name.'),
+      label: z
+        .string()
+        .optional()
+        .describe('Optional: Only the forward with this exact label.'),
+      localPort: port
+        .optional()
+        .describe('Optional: Only the forward on this local port.'),
+      namespace: z
+        .string()
+        .optional()
+        .describe('Optional: Only forwards in this namespace.'),
+      environment: z
+        .string()
+        .optional()
+        .describe('Optional: Only forwards in this environment.'),
+    }),
+  },
+  get_k8s_logs: {
+    description:
+      'Return recent logs for a service. For services started with includeLogs, reads the in-process log buffer of the running forward; otherwise (or when since, container or previous is given) runs a one-shot kubectl logs against the resolved pod.',
+    input: z.strictObject({
+      serviceName: serviceName.describe(
+        'Short name of the service (workload names, prefixes and small typos resolve like in start_k8s_port_forward).'
+      ),
+      namespace: serviceConfigSchema.shape.namespace,
+      environment: serviceConfigSchema.shape.environment,
+      label: z
+        .string()
+        .optional()
+        .describe(
+          'Optional: Exact forward label (see list_k8s_port_forwards) when several forwards match.'
+        ),
+      tail: numeric(z.number().int().positive())
+        .optional()
+        .describe(
+          `Optional: Number of most recent lines to return (default: ${DEFAULT_LOG_TAIL_LINES}).`
+        ),
+      since: z
+        .string()
+        .regex(SINCE_PATTERN, 'must be a relative duration like 5s, 2m or 3h')
+        .optional()
+        .describe(
+          'Optional: Only logs newer than a relative duration like 5s, 2m or 3h.'
+        ),
+      container: container
+        .optional()
+        .describe('Optional: Container name in multi-container pods.'),
+      previous: z
+        .boolean()
+        .optional()
+        .describe(
+          'Optional: Logs of the previous (crashed) container instance.'
+        ),
+      grep: z
+        .string()
+        .optional()
+        .describe(
+          'Optional: Only return lines matching this case-insensitive regex (or substring).'
+        ),
+      allPods: z
+        .boolean()
+        .optional()
+        .describe(
+          'Optional: Merge logs of every Running pod of the service, prefixed with the pod name, in timestamp order.'
+        ),
+      labelSelector: kubectlArg
+        .optional()
+        .describe(
+          'Optional: Merge logs of the Running pods of the service matching this label selector (implies allPods).'
+        ),
+      refresh,
+      ...kubeTargetShape,
+    }),
+  },
+  save_port_forward_profile: {
+    description:
+      'Save a named set of service configs (the same shape as start_k8s_port_forward services) so it can be started later with start_port_forward_profile. Overwrites an existing profile with the same name and scope.',
+    input: z.strictObject({
+      name: profileName.describe(
+        'Profile name (e.g. morning, checkout-stack).'
+      ),
+      services: serviceConfigsSchema.describe(
+        'Array of service configs to save.'
+      ),
+      description: z
+        .string()
+        .optional()
+        .describe('Optional: Short description of the profile.'),
+      scope: profileScope,
+    }),
+  },
+  start_port_forward_profile: {
+    description:
+      'Start every service of a saved profile. Resolution, validation and readiness work exactly like start_k8s_port_forward.',
+    input: z.strictObject({
+      name: profileName.describe(
+        'Profile name. Call list_port_forward_profiles to see saved names.'
+      ),
+      scope: profileScope,
+      readyTimeoutSeconds,
+      refresh,
+    }),
+  },
+  list_port_forward_profiles: {
+    description:
+      'List saved port-forward profiles (project and user scope) with their services.',
+    input: z.strictObject({}),
+  },
+  delete_port_forward_profile: {
+    description: 'Delete a saved port-forward profile.',
+    input: z.strictObject({
+      name: profileName.describe('Profile name to delete.'),
+      scope: profileScope,
+    }),
+  },
+};
+
+export type ToolName = keyof typeof TOOLS;
+
+export type ToolInput<N extends ToolName> = z.infer<(typeof TOOLS)[N]['input']>;
+
+/** Tool list for ListTools, with JSON Schemas generated from the input schemas. */
+export function listTools() {
+  return Object.entries(TOOLS).map(([name, tool]) => {
+    const { $schema: _, ...inputSchema } = z.toJSONSchema(tool.input);
+    return {
+      name,
+      description: tool.description,
+      inputSchema: inputSchema as { type: 'object' },
+    };
+  });
+}
+
+/** "services[0].localPort: must be ..." lines for each validation issue. */
+export function formatIssues(issues: z.core.$ZodIssue[]): string {
+  return issues
+    .map((issue) => {
+      const path = issue.path
+        .map((key, i) =>
+          typeof key === 'number'
+            ? `[${key}]`
+            : i === 0
+              ? String(key)
+              : `.${String(key)}`
+        )
+        .join('');
+      return `- ${path || '(arguments)'}: ${issue.message}`;
+    })
+    .join('\n');
+}
+
+/** Validate tool arguments; throws an Error listing every invalid field. */
+export function parseToolArgs<N extends ToolName>(
+  name: N,
+  args: unknown
+): ToolInput<N> {
+  const schema: z.ZodType = TOOLS[name].input;
+  const parsed = schema.safeParse(args ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments:\n${formatIssues(parsed.error.issues)}`);
+  }
+  return parsed.data as ToolInput<N>;
+}
@@ -1,98 +1,134 @@
-import { exec, spawn } from 'node:child_process';
+import { connect, createServer, type AddressInfo } from 'node:net';
 
-/**
- * Opens a command in an external terminal window (platform-specific).
- * Falls back to spawning in the current process if the platform command fails.
- */
-export function openLogsInTerminal(
-  logsCommand: string,
-  logsTitle: string
-): void {
-  // Escape backslashes and double quotes for shell/AppleScript
-  const escapedCommand = logsCommand
-    .replace(/\\/g, '\\\\')
-    .replace(/"/g, '\\"');
-  const escapedTitle = logsTitle.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+/** Where forwards listen unless started with an address. */
+export const LOOPBACK_ADDRESS = '127.0.0.1';
 
-  if (process.platform === 'win32') {
-    // Open a new cmd window with a title and run the logs command (keeps window open)
-    exec(`start "${escapedTitle}" cmd.exe /k "${logsCommand}"`, (err) => {
-      if (err) {
-        console.error(`Failed to open terminal: ${err.message}`);
-        spawn('kubectl', logsCommand.split(' ').slice(1), { stdio: 'inherit' });
-      }
-    });
-  } else if (process.platform === 'darwin') {
-    // Use osascript with multiple -e arguments (each -e is a separate line of AppleScript)
-    // Use AppleScript with multiple -e arguments for proper parsing
-    // Use osascript with multiple -e arguments (each -e is a separate line of AppleScript)
-    const args = [
-      '-e',
-      `tell application "Terminal"`,
-      '-e',
-      `set newTab to do script "${escapedCommand}"`,
-      '-e',
-      `set custom title of newTab to "${escapedTitle}"`,
-      '-e',
-      'activate',
-      '-e',
-      'end tell',
-    ];
+export function isValidPort(n: number): boolean {
+  return Number.isInteger(n) && n > 0 && n <= 65535;
+}
 
-    const child = spawn('osascript', args, {
-      stdio: ['ignore', 'pipe', 'pipe'],
-    });
+/** Whether an address only accepts connections from this machine. */
+export function isLoopbackAddress(address: string): boolean {
+  return address === 'localhost' || address === '::1' || /^127\./.test(address);
+}
 
-    let stderrData = '';
-    child.stderr?.on('data', (data: Buffer) => {
-      stderrData += data.toString();
-    });
+/** Check whether a local port can be bound (on the loopback interface by default). */
+export function isPortFree(
+  port: number,
+  host = LOOPBACK_ADDRESS
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = createServer();
+    probe.once('error', () => resolve(false));
+    probe.once('listening', () => probe.close(() => resolve(true)));
+    probe.listen(port, host);
+  });
+}
 
-    child.on('close', (code) => {
-      if (code !== 0) {
-        console.error(`Failed to open Terminal (exit code ${code})`);
-        if (stderrData) console.error(`stderr: ${stderrData}`);
-        // Fallback to spawning in current process
-        spawn('kubectl', logsCommand.split(' ').slice(1), { stdio: 'inherit' });
-      }
-    });
+export interface PortRange {
+  start: number;
+  end: number;
+}
 
-    child.on('error', (err) => {
-      console.error(`Failed to execute osascript: ${err.message}`);
-      spawn('kubectl', logsCommand.split(' ').slice(1), { stdio: 'inherit' });
-    });
-  } else {
-    // Try common Linux terminals; set the title via escape sequence or terminal option; fall back to spawning in current process
-    const commandWithTitle = `echo -ne '\\033]0;${escapedTitle}\\007'; ${escapedCommand}`;
+/** Parse a "start-end" range (inclusive); returns null when malformed. */
+export function parsePortRange(value: string): PortRange | null {
+  const match = /^\s*(\d+)\s*-\s*(\d+)\s*$/.exec(value);
+  if (!match) return null;
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  if (!isValidPort(start) || !isValidPort(end) || start > end) return null;
+  return { start, end };
+}
 
-    exec(
-      `gnome-terminal -- bash -c "${commandWithTitle}; exec bash"`,
-      (err) => {
-        if (err) {
-          exec(
-            `x-terminal-emulator -e bash -c "${commandWithTitle}; exec bash"`,
-            (err2) => {
-              if (err2) {
-                exec(
-                  `xterm -T "${escapedTitle}" -e bash -c "${escapedCommand}; exec bash"`,
-                  (err3) => {
-                    if (err3) {
-                      console.error(`Failed to open terminal: ${err3.message}`);
-                      spawn('kubectl', logsCommand.split(' ').slice(1), {
-                        stdio: 'inherit',
-                      });
-                    }
-                  }
-                );
-              }
-            }
-          );
-        }
-      }
-    );
+/** First port in the range that is not excluded and can be bound, or null. */
+export async function findFreePort(
+  range: PortRange,
+  exclude: ReadonlySet<number>,
+  host = LOOPBACK_ADDRESS
+): Promise<number | null> {
+  for (let port = range.start; port <= range.end; port++) {
+    if (exclude.has(port)) continue;
+    if (await isPortFree(port, host)) return port;
   }
+  return null;
 }
 
-export function isValidPort(n: number): boolean {
-  return Number.isInteger(n) && n > 0 && n <= 65535;
+/** A loopback port the OS reports as free (for internal listeners). */
+export function freeEphemeralPort(host = LOOPBACK_ADDRESS): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once('error', reject);
+    probe.listen(0, host, () => {
+      const { port } = probe.address() as AddressInfo;
+      probe.close(() => resolve(port));
+    });
+  });
+}
+
+/** Check whether something accepts TCP connections on a local port. */
+export function canConnect(
+  port: number,
+  host = LOOPBACK_ADDRESS,
+  timeoutMs = 1000
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = connect({ port, host });
+    const done = (ok: boolean) => {
+      socket.destroy();
+      resolve(ok);
+    };
+    socket.setTimeout(timeoutMs, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+/** Compact age like kubectl shows it: "45s", "12m", "5h" or "3d". */
+export function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 120) return `${seconds}s`;
+  if (seconds < 2 * 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 2 * 86400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86400)}d`;
+}
+
+// DNS-1123 label: namespaces, container and port names
+export const DNS1123_LABEL_PATTERN = '^[a-z0-9]([-a-z0-9]*[a-z0-9])?$';
+// DNS-1123 subdomain: most other object names (deployments, services, pods)
+export const DNS1123_SUBDOMAIN_PATTERN =
+  '^[a-z0-9]([-a-z0-9]*[a-z0-9])?(\\.[a-z0-9]([-a-z0-9]*[a-z0-9])?)*$';
+
+/**
+ * Free-form kubectl argument values (contexts, kubeconfig paths, selectors):
+ * anything that cannot be mistaken for a flag and has no control characters.
+ */
+export function isSafeArg(value: string): boolean {
+  return !value.startsWith('-') && !/[\x00-\x1f\x7f]/.test(value);
+}
+
+export type ShellKind = 'posix' | 'cmd';
+
+// Arguments made only of these characters need no quoting
+const POSIX_SAFE_ARG = /^[A-Za-z0-9_\/.,:=@+-]+$/;
+const CMD_SAFE_ARG = /^[A-Za-z0-9_\/\\.,:=@+-]+$/;
+
+/**
+ * Join an argv into a command line for sh/bash (single quotes) or cmd.exe
+ * (double quotes), so it runs exactly those arguments when pasted or spawned.
+ */
+export function shellQuote(
+  argv: string[],
+  shell: ShellKind = process.platform === 'win32' ? 'cmd' : 'posix'
+): string {
+  return argv
+    .map((arg) => {
+      if (shell === 'cmd') {
+        // Inside double quotes cmd still expands %VAR%; escape % outside them
+        return CMD_SAFE_ARG.test(arg)
+          ? arg
+          : `"${arg.replace(/"/g, '""').replace(/%/g, '"^%"')}"`;
+      }
+      return POSIX_SAFE_ARG.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+    })
+    .join(' ');
 }
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+
+import type { LogViewerConfig } from './config.js';
+import type { LogFollower } from './logs.js';
+import {
+  describeAttempts,
+  openLogViewer,
+  type LogViewRequest,
+} from './viewers.js';
+
+let dir: string;
+
+function request(title: string): LogViewRequest {
+  return {
+    argv: ['kubectl', 'logs', '--namespace', 'default', 'web-1', '-f'],
+    title,
+    // The viewers only add sinks to the follower
+    follower: { sinks: [] } as unknown as LogFollower,
+  };
+}
+
+function viewerConfig(backends: string[]): LogViewerConfig {
+  return { backends, fileDir: dir, maxFileBytes: 20, maxFiles: 2 };
+}
+
+/** Read a file once its writes have been flushed. */
+async function eventually(path: string, expected: string): Promise<void> {
+  const deadline = Date.now() + 2000;
+  for (;;) {
+    let text = '';
+    try {
+      text = readFileSync(path, 'utf8');
+    } catch {
+      // not created yet
+    }
+    if (text === expected || Date.now() > deadline) {
+      assert.equal(text, expected, path);
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+}
+
+before(() => {
+  dir = mkdtempSync(join(tmpdir(), 'k8s-viewers-'));
+});
+
+after(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('openLogViewer', () => {
+  it('tries backends in order and reports every attempt', async () => {
+    const unsupported = process.platform === 'win32' ? 'xterm' : 'cmd';
+    const attempts = await openLogViewer(
+      request('dev~web:3000'),
+      viewerConfig(['nope', unsupported, 'none', 'file'])
+    );
+    assert.deepEqual(attempts, [
+      { backend: 'nope', ok: false, detail: 'unknown backend' },
+      {
+        backend: unsupported,
+        ok: false,
+        detail: `not supported on ${process.platform}`,
+      },
+      {
+        backend: 'none',
+        ok: true,
+        detail: 'logs only buffered in-process (get_k8s_logs)',
+      },
+    ]);
+  });
+
+  it('writes logs to a rotating file with the file backend', async () => {
+    const viewed = request('dev~web:3000');
+    const attempts = await openLogViewer(viewed, viewerConfig(['file']));
+    const path = join(dir, 'dev_web_3000.log');
+    assert.deepEqual(attempts, [{ backend: 'file', ok: true, detail: path }]);
+
+    const [sink] = viewed.follower.sinks;
+    for (const line of ['line one', 'line two', 'line three', 'line four']) {
+      sink.write(line);
+    }
+    sink.close?.();
+    await eventually(path, 'line four\n');
+    await eventually(`${path}.1`, 'line three\n');
+    // The first two lines fit in 20 bytes
+    await eventually(`${path}.2`, 'line one\nline two\n');
+  });
+});
+
+describe('describeAttempts', () => {
+  it('names the viewer that opened and the ones that failed', () => {
+    assert.equal(
+      describeAttempts([
+        { backend: 'xterm', ok: false, detail: 'spawn xterm ENOENT' },
+        { backend: 'tmux', ok: true, detail: 'tmux window' },
+      ]),
+      'tmux: tmux window (xterm failed: spawn xterm ENOENT)'
+    );
+    assert.equal(
+      describeAttempts([
+        { backend: 'nope', ok: false, detail: 'unknown backend' },
+      ]),
+      'no log viewer opened; use get_k8s_logs (nope failed: unknown backend)'
+    );
+  });
+});
@@ -0,0 +1,328 @@
+import { spawn } from 'node:child_process';
+import {
+  createWriteStream,
+  mkdirSync,
+  openSync,
+  renameSync,
+  statSync,
+} from 'node:fs';
+import { join } from 'node:path';
+
+import { getConfig, type LogViewerConfig } from './config.js';
+import type { LogFollower, LogSink } from './logs.js';
+import { shellQuote } from './util.js';
+
+/** A log stream to show: the kubectl command and the in-process follower. */
+export interface LogViewRequest {
+  /** Command (as argv) that follows the logs; terminal backends quote it for their shell. */
+  argv: string[];
+  title: string;
+  follower: LogFollower;
+}
+
+export interface LogViewerBackend {
+  name: string;
+  platforms?: NodeJS.Platform[];
+  /** Resolve with a short description once shown; reject if this backend cannot show logs. */
+  open(request: LogViewRequest, config: LogViewerConfig): Promise<string>;
+}
+
+export interface LogViewerAttempt {
+  backend: string;
+  ok: boolean;
+  detail: string;
+}
+
+// A terminal that is still running after this long is considered opened
+const LAUNCH_GRACE_MS = 1500;
+
+/** Platform default chains used for the "auto" backend. */
+const AUTO_BACKENDS: Partial<Record<NodeJS.Platform, string[]>> = {
+  win32: ['cmd'],
+  darwin: ['terminal-app'],
+  linux: ['gnome-terminal', 'x-terminal-emulator', 'xterm'],
+};
+
+function escapeAppleScript(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+/**
+ * Spawn a detached launcher. Succeeds when it exits with code 0 or is still
+ * running after LAUNCH_GRACE_MS (terminals like xterm stay in the foreground).
+ */
+function launch(
+  command: string,
+  args: string[],
+  options: { windowsVerbatimArguments?: boolean } = {}
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let stderr = '';
+    const child = spawn(command, args, {
+      detached: true,
+      stdio: ['ignore', 'ignore', 'pipe'],
+      windowsVerbatimArguments: options.windowsVerbatimArguments,
+    });
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+    const timer = setTimeout(() => {
+      child.unref();
+      child.stderr?.destroy();
+      resolve(`${command} running (pid ${child.pid})`);
+    }, LAUNCH_GRACE_MS);
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      reject(err);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve(`${command} exited 0`);
+      else
+        reject(
+          new Error(
+            `${command} exited with code ${code}${stderr.trim() ? `: ${stderr.trim()}` : ''}`
+          )
+        );
+    });
+  });
+}
+
+/** Bash script that sets the window title, runs the command and keeps the shell open. */
+function bashScript(request: LogViewRequest): string {
+  const title = request.title.replace(/'/g, '');
+  return `echo -ne '\\033]0;${title}\\007'; ${shellQuote(request.argv, 'posix')}; exec bash`;
+}
+
+/** Append-only log file that rotates label.log -> label.log.1 ... past maxFileBytes. */
+function rotatingFileSink(path: string, config: LogViewerConfig): LogSink {
+  let size = 0;
+  try {
+    size = statSync(path).size;
+  } catch {
+    // new file
+  }
+  // Open synchronously: a stream opens its file later, after a burst of
+  // writes may already have rotated the path away from under it
+  const open = () => createWriteStream(path, { fd: openSync(path, 'a') });
+  let stream = open();
+  const write = (line: string) => {
+    const chunk = `${line}\n`;
+    if (size > 0 && size + chunk.length > config.maxFileBytes) {
+      stream.end();
+      for (let i = config.maxFiles - 1; i >= 1; i--) {
+        try {
+          renameSync(`${path}.${i}`, `${path}.${i + 1}`);
+        } catch {
+          // missing generation
+        }
+      }
+      try {
+        renameSync(path, `${path}.1`);
+      } catch {
+        // ignore
+      }
+      stream = open();
+      size = 0;
+    }
+    stream.write(chunk);
+    size += chunk.length;
+  };
+  return { write, close: () => stream.end() };
+}
+
+export const LOG_VIEWER_BACKENDS: LogViewerBackend[] = [
+  {
+    name: 'gnome-terminal',
+    platforms: ['linux'],
+    open: (r) => launch('gnome-terminal', ['--', 'bash', '-c', bashScript(r)]),
+  },
+  {
+    name: 'x-terminal-emulator',
+    platforms: ['linux'],
+    open: (r) =>
+      launch('x-terminal-emulator', ['-e', 'bash', '-c', bashScript(r)]),
+  },
+  {
+    name: 'xterm',
+    platforms: ['linux', 'darwin'],
+    open: (r) =>
+      launch('xterm', [
+        '-T',
+        r.title,
+        '-e',
+        'bash',
+        '-c',
+        `${shellQuote(r.argv, 'posix')}; exec bash`,
+      ]),
+  },
+  {
+    name: 'tmux',
+    platforms: ['linux', 'darwin'],
+    open: async (r) => {
+      const windowArgs = ['-d', '-n', r.title, shellQuote(r.argv, 'posix')];
+      if (process.env.TMUX) {
+        await launch('tmux', ['new-window', ...windowArgs]);
+        return 'tmux window in the current session';
+      }
+      // Outside tmux, collect windows in a detached session
+      const session = 'k8s-port-forward';
+      try {
+        await launch('tmux', ['new-window', '-t', session, ...windowArgs]);
+      } catch {
+        await launch('tmux', ['new-session', '-s', session, ...windowArgs]);
+      }
+      return `tmux session ${session} (attach with: tmux attach -t ${session})`;
+    },
+  },
+  {
+    name: 'terminal-app',
+    platforms: ['darwin'],
+    open: (r) =>
+      // Each -e is a separate line of AppleScript
+      launch('osascript', [
+        '-e',
+        'tell application "Terminal"',
+        '-e',
+        `set newTab to do script "${escapeAppleScript(shellQuote(r.argv, 'posix'))}"`,
+        '-e',
+        `set custom title of newTab to "${escapeAppleScript(r.title)}"`,
+        '-e',
+        'activate',
+        '-e',
+        'end tell',
+      ]),
+  },
+  {
+    name: 'iterm2',
+    platforms: ['darwin'],
+    open: (r) =>
+      launch('osascript', [
+        '-e',
+        'tell application "iTerm2"',
+        '-e',
+        'set newWindow to (create window with default profile)',
+        '-e',
+        'tell current session of newWindow',
+        '-e',
+        `set name to "${escapeAppleScript(r.title)}"`,
+        '-e',
+        `write text "${escapeAppleScript(shellQuote(r.argv, 'posix'))}"`,
+        '-e',
+        'end tell',
+        '-e',
+        'activate',
+        '-e',
+        'end tell',
+      ]),
+  },
+  {
+    name: 'cmd',
+    platforms: ['win32'],
+    // Open a new cmd window with a title and run the logs command (keeps window open)
+    open: (r) =>
+      launch(
+        'cmd.exe',
+        [
+          '/c',
+          'start',
+          `"${r.title.replace(/["%]/g, '')}"`,
+          'cmd.exe',
+          '/k',
+          shellQuote(r.argv, 'cmd'),
+        ],
+        { windowsVerbatimArguments: true }
+      ),
+  },
+  {
+    name: 'windows-terminal',
+    platforms: ['win32'],
+    open: (r) =>
+      launch('wt.exe', [
+        'new-tab',
+        '--title',
+        r.title,
+        'cmd.exe',
+        '/k',
+        shellQuote(r.argv, 'cmd'),
+      ]),
+  },
+  {
+    name: 'file',
+    open: async (r, config) => {
+      mkdirSync(config.fileDir, { recursive: true });
+      const path = join(
+        config.fileDir,
+        `${r.title.replace(/[^A-Za-z0-9._-]+/g, '_')}.log`
+      );
+      r.follower.sinks.push(rotatingFileSink(path, config));
+      return path;
+    },
+  },
+  {
+    name: 'none',
+    open: async () => 'logs only buffered in-process (get_k8s_logs)',
+  },
+];
+
+/** Configured backend names with "auto" expanded for this platform. */
+function backendChain(config: LogViewerConfig): string[] {
+  return config.backends.flatMap((name) =>
+    name === 'auto' ? (AUTO_BACKENDS[process.platform] ?? ['none']) : [name]
+  );
+}
+
+/**
+ * Show a log stream using the configured backends, trying each in order until
+ * one succeeds. Returns every attempt so callers can report what happened.
+ */
+export async function openLogViewer(
+  request: LogViewRequest,
+  config: LogViewerConfig = getConfig().logViewer
+): Promise<LogViewerAttempt[]> {
+  const attempts: LogViewerAttempt[] = [];
+  for (const name of backendChain(config)) {
+    const backend = LOG_VIEWER_BACKENDS.find((b) => b.name === name);
+    if (!backend) {
+      attempts.push({ backend: name, ok: false, detail: 'unknown backend' });
+      continue;
+    }
+    if (backend.platforms && !backend.platforms.includes(process.platform)) {
+      attempts.push({
+        backend: name,
+        ok: false,
+        detail: `not supported on ${process.platform}`,
+      });
+      continue;
+    }
+    try {
+      const detail = await backend.open(request, config);
+      attempts.push({ backend: name, ok: true, detail });
+      return attempts;
+    } catch (err) {
+      attempts.push({
+        backend: name,
+        ok: false,
+        detail: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  // Logs are also buffered in-process, so a missing viewer only loses the window.
+  // Never fall back to inheriting stdio: stdout carries the MCP protocol.
+  console.error(
+    `No log viewer for ${request.title}; read its logs with get_k8s_logs instead.`
+  );
+  return attempts;
+}
+
+/** One-line summary of viewer attempts, e.g. "tmux (gnome-terminal failed: ...)". */
+export function describeAttempts(attempts: LogViewerAttempt[]): string {
+  const success = attempts.find((a) => a.ok);
+  const failures = attempts
+    .filter((a) => !a.ok)
+    .map((a) => `${a.backend} failed: ${a.detail}`);
+  const head = success
+    ? `${success.backend}: ${success.detail}`
+    : 'no log viewer opened; use get_k8s_logs';
+  return failures.length > 0 ? `${head} (${failures.join('; ')})` : head;
+}